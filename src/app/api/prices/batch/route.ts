@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceProvider, PROVIDER_NAMES, toErrorResponse } from '@/lib/providers';
+import { PRICE_INTERVALS, isPriceInterval } from '@/lib/data/intervals';
+import { isValidSymbol, resolveRequestRange, fetchPriceResponse } from '@/lib/data/priceResponse';
+import { mapWithConcurrency } from '@/lib/data/concurrency';
+
+const MAX_SYMBOLS = 50;
+
+// Upstream fetches in flight at once
+const CONCURRENCY = 4;
+
+interface BatchRequest {
+  symbols?: unknown;
+  startDate?: unknown;
+  endDate?: unknown;
+  interval?: unknown;
+  provider?: unknown;
+}
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+/**
+ * Fetch several symbols over a shared range and interval.
+ *
+ * Body: { symbols: string[], startDate?, endDate?, interval?, provider? }
+ * Each entry of `results` is either the /api/prices payload for that symbol
+ * or { symbol, error, code, details? } as /api/prices would have failed,
+ * so one bad ticker doesn't fail the batch.
+ */
+export async function POST(request: NextRequest) {
+  let body: BatchRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be JSON', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const rawSymbols = Array.isArray(body.symbols) ? body.symbols : null;
+  if (!rawSymbols || rawSymbols.length === 0 || !rawSymbols.every((s) => typeof s === 'string' && s.trim())) {
+    return NextResponse.json(
+      { error: 'symbols must be a non-empty array of strings', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  // Duplicates would only cost extra upstream calls
+  const symbols = [...new Set(rawSymbols.map((s: string) => s.trim().toUpperCase()))];
+  if (symbols.length > MAX_SYMBOLS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_SYMBOLS} symbols per batch`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const interval = optionalString(body.interval) ?? '1d';
+  if (!isPriceInterval(interval)) {
+    return NextResponse.json(
+      { error: `Invalid interval. Expected one of: ${PRICE_INTERVALS.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const provider = getPriceProvider(optionalString(body.provider));
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Unknown provider. Expected one of: ${PROVIDER_NAMES.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  let range: ReturnType<typeof resolveRequestRange>;
+  try {
+    range = resolveRequestRange(optionalString(body.startDate), optionalString(body.endDate), interval);
+  } catch (error) {
+    const { body: errorBody, status } = toErrorResponse(error);
+    return NextResponse.json(errorBody, { status });
+  }
+
+  const results = await mapWithConcurrency(symbols, CONCURRENCY, async (symbol) => {
+    if (!isValidSymbol(symbol)) {
+      return { symbol, error: `"${symbol}" is not a valid symbol`, code: 'BAD_REQUEST' };
+    }
+    try {
+      return await fetchPriceResponse(provider, symbol, interval, range);
+    } catch (error) {
+      const { body: errorBody, status } = toErrorResponse(error);
+      if (status >= 500) {
+        console.error(`Error fetching price data for ${symbol}:`, error);
+      }
+      return { symbol, ...errorBody };
+    }
+  });
+
+  return NextResponse.json({
+    interval,
+    range: {
+      startDate: range.period1.toISOString(),
+      endDate: range.period2.toISOString(),
+      clamped: range.clamped,
+    },
+    results,
+  });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeSymbol } from '@/lib/cache/priceCache';
+
+// Purge all cached bars for a symbol: DELETE /api/prices/cache?symbol=SPY
+export async function DELETE(request: NextRequest) {
+  const symbol = request.nextUrl.searchParams.get('symbol');
+
+  if (!symbol) {
+    return NextResponse.json(
+      { error: 'Symbol is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const purged = await purgeSymbol(symbol);
+
+    return NextResponse.json({
+      symbol: symbol.toUpperCase(),
+      purged,
+    });
+  } catch (error) {
+    console.error('Error purging price cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge price cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,72 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import YahooFinance from 'yahoo-finance2';
-
-interface HistoricalResult {
-  date: Date;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-  adjClose?: number;
-}
-
-// Create Yahoo Finance instance
-const yahooFinance = new YahooFinance();
+import { getPriceProvider, PROVIDER_NAMES, toErrorResponse } from '@/lib/providers';
+import { PRICE_INTERVALS, isPriceInterval } from '@/lib/data/intervals';
+import { isValidSymbol, resolveRequestRange, fetchPriceResponse } from '@/lib/data/priceResponse';
 
+/**
+ * Bars and corporate events for one symbol.
+ *
+ * Errors are { error, code, details? } with a 4xx status for bad input,
+ * unknown symbols and empty ranges, and 429/502/504 for upstream failures
+ * (which are retried before giving up).
+ */
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const symbol = searchParams.get('symbol');
+  const symbol = searchParams.get('symbol')?.trim();
   const startDate = searchParams.get('startDate');
   const endDate = searchParams.get('endDate');
+  const providerName = searchParams.get('provider');
+  const interval = searchParams.get('interval') || '1d';
 
   if (!symbol) {
     return NextResponse.json(
-      { error: 'Symbol is required' },
+      { error: 'Symbol is required', code: 'BAD_REQUEST' },
       { status: 400 }
     );
   }
 
-  try {
-    // Parse dates or use defaults
-    const period1 = startDate
-      ? new Date(startDate)
-      : new Date(Date.now() - 5 * 365 * 24 * 60 * 60 * 1000); // 5 years ago
-
-    const period2 = endDate ? new Date(endDate) : new Date();
+  if (!isValidSymbol(symbol)) {
+    return NextResponse.json(
+      { error: `"${symbol}" is not a valid symbol`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
 
-    // Fetch historical data from Yahoo Finance
-    const queryOptions = {
-      period1,
-      period2,
-      interval: '1d' as const,
-    };
+  if (!isPriceInterval(interval)) {
+    return NextResponse.json(
+      { error: `Invalid interval. Expected one of: ${PRICE_INTERVALS.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
 
-    const result = await yahooFinance.historical(
-      symbol.toUpperCase(),
-      queryOptions
-    ) as HistoricalResult[];
+  // Provider comes from ?provider=, then PRICE_PROVIDER, then Yahoo
+  const provider = getPriceProvider(providerName);
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Unknown provider. Expected one of: ${PROVIDER_NAMES.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
 
-    // Transform to our format
-    const priceData = result.map((quote: HistoricalResult) => ({
-      timestamp: quote.date.toISOString(),
-      price: quote.close,
-      open: quote.open,
-      high: quote.high,
-      low: quote.low,
-      volume: quote.volume,
-    }));
+  try {
+    // Intraday intervals only reach back a limited number of days
+    const range = resolveRequestRange(startDate, endDate, interval);
 
-    return NextResponse.json({
-      symbol: symbol.toUpperCase(),
-      data: priceData,
-      count: priceData.length,
-    });
+    // Fetch historical data from the selected provider, through the on-disk cache
+    return NextResponse.json(await fetchPriceResponse(provider, symbol.toUpperCase(), interval, range));
   } catch (error) {
-    console.error('Error fetching price data:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch price data', details: String(error) },
-      { status: 500 }
-    );
+    const { body, status } = toErrorResponse(error);
+    if (status >= 500) {
+      console.error('Error fetching price data:', error);
+    }
+    return NextResponse.json(body, { status });
   }
 }
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPriceProvider, PROVIDER_NAMES, toErrorResponse } from '@/lib/providers';
+import { getLiveSource, LIVE_SOURCE_NAMES } from '@/lib/live';
+import { PRICE_INTERVALS, isPriceInterval } from '@/lib/data/intervals';
+import { isValidSymbol, toPriceItem } from '@/lib/data/priceResponse';
+
+// Comment line sent when idle so proxies keep the connection open
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Server-sent events with live updates for one symbol.
+ *
+ * Query: symbol, interval?, provider?, source? (provider | simulated),
+ * since? (timestamp of the client's last bar) and last? (its price).
+ * Events: `ready` once subscribed, then `bar` for a newly opened bar and
+ * `tick` for a new last price on the current bar, both carrying one
+ * /api/prices data item; `sourceError` when the source fails (the stream
+ * stays open; a plain `error` event would look like a dropped connection).
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const symbol = searchParams.get('symbol');
+  const interval = searchParams.get('interval') || '1d';
+  const since = searchParams.get('since');
+  const last = searchParams.get('last');
+
+  if (!symbol) {
+    return NextResponse.json(
+      { error: 'Symbol is required', code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  if (!isValidSymbol(symbol)) {
+    return NextResponse.json(
+      { error: `"${symbol}" is not a valid symbol`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  if (!isPriceInterval(interval)) {
+    return NextResponse.json(
+      { error: `Invalid interval. Expected one of: ${PRICE_INTERVALS.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const provider = getPriceProvider(searchParams.get('provider'));
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Unknown provider. Expected one of: ${PROVIDER_NAMES.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const source = getLiveSource(searchParams.get('source'), provider);
+  if (!source) {
+    return NextResponse.json(
+      { error: `Unknown source. Expected one of: ${LIVE_SOURCE_NAMES.join(', ')}`, code: 'BAD_REQUEST' },
+      { status: 400 }
+    );
+  }
+
+  const sinceDate = since ? new Date(since) : null;
+  const lastPrice = last ? parseFloat(last) : NaN;
+  const resume = sinceDate && !isNaN(sinceDate.getTime()) && lastPrice > 0
+    ? { timestamp: sinceDate, price: lastPrice }
+    : undefined;
+
+  const upperSymbol = symbol.toUpperCase();
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      const unsubscribe = source.subscribe(
+        { symbol: upperSymbol, interval, last: resume },
+        ({ type, quote }) => send(type, { symbol: upperSymbol, ...toPriceItem(quote) }),
+        (error) => {
+          console.error(`Live source error for ${upperSymbol}:`, error);
+          send('sourceError', toErrorResponse(error).body);
+        }
+      );
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      stop = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      // Client went away
+      request.signal.addEventListener('abort', () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      send('ready', { symbol: upperSymbol, interval, source: source.name });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
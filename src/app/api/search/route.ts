@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Asset } from '@/types';
+import { getPriceProvider, PROVIDER_NAMES, toErrorResponse } from '@/lib/providers';
+import { searchLocalSymbols } from '@/lib/data/symbolList';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 25;
+
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const query = searchParams.get('q')?.trim() ?? '';
+  const providerName = searchParams.get('provider');
+  const limitParam = parseInt(searchParams.get('limit') ?? '', 10);
+  const limit = isNaN(limitParam) ? DEFAULT_LIMIT : Math.min(Math.max(limitParam, 1), MAX_LIMIT);
+
+  if (!query) {
+    return NextResponse.json(
+      { error: 'Query is required' },
+      { status: 400 }
+    );
+  }
+
+  const provider = getPriceProvider(providerName);
+  if (!provider) {
+    return NextResponse.json(
+      { error: `Unknown provider. Expected one of: ${PROVIDER_NAMES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  let results: Asset[] = [];
+  let source: 'provider' | 'local' = 'local';
+  let providerError: unknown = null;
+
+  if (provider.searchSymbols) {
+    try {
+      results = await provider.searchSymbols(query, limit);
+      source = 'provider';
+    } catch (error) {
+      // Search is best effort: fall back to the bundled list
+      console.error('Error searching symbols:', error);
+      providerError = error;
+    }
+  }
+
+  if (results.length === 0) {
+    results = searchLocalSymbols(query, limit);
+    source = 'local';
+  }
+
+  // Nothing to fall back on: report why the provider search failed
+  if (results.length === 0 && providerError) {
+    const { body, status } = toErrorResponse(providerError);
+    return NextResponse.json(body, { status });
+  }
+
+  return NextResponse.json({
+    query,
+    results,
+    source,
+  });
+}
@@ -2,7 +2,10 @@
 
 import dynamic from 'next/dynamic';
 import { ControlPanel } from '@/components/controls/ControlPanel';
+import { ViewModeToggle } from '@/components/controls/ViewModeToggle';
 import { DataConnector } from '@/components/DataConnector';
+import { PolarSpiral } from '@/components/visualization/PolarSpiral';
+import { useAppStore } from '@/store/useAppStore';
 
 // Dynamic import for the 3D canvas to avoid SSR issues with Three.js
 const SpiralCanvas = dynamic(
@@ -21,6 +24,8 @@ const SpiralCanvas = dynamic(
 );
 
 export default function Home() {
+  const { viewMode } = useAppStore();
+
   return (
     <div className="flex h-screen overflow-hidden">
       {/* Data connector (invisible, just manages data flow) */}
@@ -29,9 +34,12 @@ export default function Home() {
       {/* Control Panel (left sidebar) */}
       <ControlPanel />
 
-      {/* 3D Visualization (main area) */}
-      <div className="flex-1 h-full">
-        <SpiralCanvas />
+      {/* Visualization (main area): 3D helix or 2D polar chart */}
+      <div className="flex-1 h-full relative">
+        {viewMode === '3d' ? <SpiralCanvas /> : <PolarSpiral />}
+        <div className="absolute top-4 right-4">
+          <ViewModeToggle />
+        </div>
       </div>
     </div>
   );
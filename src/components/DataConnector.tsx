@@ -1,41 +1,142 @@
 'use client';
 
-import { useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
 import { useAppStore } from '@/store/useAppStore';
-import { usePriceData } from '@/hooks/usePriceData';
+import { usePriceData, usePriceDataBatch } from '@/hooks/usePriceData';
+import { useBundledCpi } from '@/hooks/useCpiIndex';
+import { useLivePrices } from '@/hooks/useLivePrices';
+import { fxSymbol } from '@/lib/data/currency';
+import { clampRangeForInterval } from '@/lib/data/intervals';
+import { cleanPriceData } from '@/lib/data/quality';
 
 /**
  * This component connects the data fetching to the store.
- * It watches for changes in asset selection and fetches data accordingly.
+ * It watches for changes in the series list and fetches all series in one batch.
  */
 export function DataConnector() {
-  const { asset, config, setPriceData, setIsLoading, setError } = useAppStore();
+  const {
+    seriesList,
+    ratioAsset,
+    config,
+    setSeriesData,
+    setRatioData,
+    setFxData,
+    customCpi,
+    setBundledCpi,
+    setIsLoading,
+    setError,
+  } = useAppStore();
 
-  const { data, isLoading, error } = usePriceData(
-    asset?.symbol || null,
-    config.startDate,
-    config.endDate
+  // Imported series are already in the store, so there is nothing to fetch
+  const symbolKey = seriesList
+    .filter((s) => s.asset.source !== 'import')
+    .map((s) => s.asset.symbol)
+    .join('\n');
+  const symbols = useMemo(() => (symbolKey ? symbolKey.split('\n') : []), [symbolKey]);
+
+  // Intraday intervals only reach back so far; the stored range stays as the
+  // user set it so switching back to daily restores it
+  const { startDate, endDate } = useMemo(
+    () => clampRangeForInterval(config.startDate, config.endDate, config.interval),
+    [config.startDate, config.endDate, config.interval]
+  );
+
+  const batch = usePriceDataBatch(
+    symbols,
+    startDate,
+    endDate,
+    config.interval
+  );
+
+  // The asset every series is priced in, in ratio mode
+  const ratio = usePriceData(
+    ratioAsset?.symbol ?? null,
+    startDate,
+    endDate,
+    config.interval
+  );
+
+  // Exchange rates for the display currency; USD needs none
+  const fxSymbolToFetch = config.displayCurrency !== 'USD' ? fxSymbol(config.displayCurrency) : null;
+  const fx = usePriceData(
+    fxSymbolToFetch,
+    startDate,
+    endDate,
+    config.interval
+  );
+
+  // CPI for real prices, unless the user loaded their own
+  const cpi = useBundledCpi(config.realPrices && !customCpi);
+
+  // Clean fetched bars before they reach the store
+  const { dataQuality, interval } = config;
+  const cleaned = useMemo(() => {
+    const bySymbol: Record<string, ReturnType<typeof cleanPriceData>> = {};
+    for (const symbol of symbols) {
+      const data = batch.data?.[symbol.toUpperCase()]?.data;
+      if (data) {
+        bySymbol[symbol] = cleanPriceData(data, dataQuality, interval);
+      }
+    }
+    return bySymbol;
+  }, [batch.data, symbols, dataQuality, interval]);
+
+  const cleanedRatio = useMemo(
+    () => (ratio.data ? cleanPriceData(ratio.data, dataQuality, interval).points : null),
+    [ratio.data, dataQuality, interval]
   );
 
   // Update store when data changes
   useEffect(() => {
-    if (data) {
-      setPriceData(data);
-      setError(null);
+    for (const [symbol, result] of Object.entries(cleaned)) {
+      setSeriesData(symbol, result.points, result.report);
     }
-  }, [data, setPriceData, setError]);
+  }, [cleaned, setSeriesData]);
+
+  useEffect(() => {
+    if (cleanedRatio) {
+      setRatioData(cleanedRatio);
+    }
+  }, [cleanedRatio, setRatioData]);
+
+  useEffect(() => {
+    if (fx.data) {
+      setFxData(fx.data);
+    }
+  }, [fx.data, setFxData]);
+
+  useEffect(() => {
+    if (cpi.data) {
+      setBundledCpi(cpi.data);
+    }
+  }, [cpi.data, setBundledCpi]);
+
+  // Live bars for the active series, when enabled
+  useLivePrices();
 
   // Update loading state
+  const isLoading = batch.isLoading || ratio.isLoading || fx.isLoading;
   useEffect(() => {
     setIsLoading(isLoading);
   }, [isLoading, setIsLoading]);
 
-  // Update error state
+  // Update error state, naming the failing symbol when several are loaded
+  const failedSymbol = symbols.find((symbol) => batch.data?.[symbol.toUpperCase()]?.error);
+  const failure = failedSymbol ? batch.data?.[failedSymbol.toUpperCase()]?.error : null;
+  const errorMessage = batch.error ? batch.error.message
+    : failure ? symbols.length > 1 && !failure.includes(failedSymbol!) ? `${failedSymbol}: ${failure}` : failure
+    : ratio.error && ratioAsset ? `${ratioAsset.symbol}: ${ratio.error.message}`
+    : fx.error ? `${config.displayCurrency} exchange rates: ${fx.error.message}`
+    : cpi.error ? cpi.error.message : null;
+  const hasData = symbols.some((symbol) => batch.data?.[symbol.toUpperCase()]?.data);
+
   useEffect(() => {
-    if (error) {
-      setError(error.message);
+    if (errorMessage) {
+      setError(errorMessage);
+    } else if (hasData) {
+      setError(null);
     }
-  }, [error, setError]);
+  }, [errorMessage, hasData, setError]);
 
   // This component doesn't render anything
   return null;
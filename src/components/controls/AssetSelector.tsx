@@ -1,7 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAppStore } from '@/store/useAppStore';
+import { useSymbolSearch } from '@/hooks/useSymbolSearch';
 import { Asset, AssetType } from '@/types';
 
 // Popular assets for quick selection
@@ -19,18 +20,73 @@ const POPULAR_ASSETS: Asset[] = [
   { symbol: 'CL=F', name: 'Crude Oil Futures', type: 'commodity' },
 ];
 
+// Delay before the typed symbol is sent to /api/search
+const SEARCH_DEBOUNCE_MS = 200;
+
 export function AssetSelector() {
-  const { asset, setAsset } = useAppStore();
+  const { asset, seriesList, setAsset, addSeries } = useAppStore();
   const [customSymbol, setCustomSymbol] = useState('');
+  const [addAsComparison, setAddAsComparison] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [highlightIndex, setHighlightIndex] = useState(-1);
+
+  // Debounce the search query
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(customSymbol), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [customSymbol]);
+
+  const { data: searchResults = [] } = useSymbolSearch(searchQuery);
+  const showDropdown = isDropdownOpen && customSymbol.trim() !== '' && searchResults.length > 0;
+  const activeIndex = highlightIndex < searchResults.length ? highlightIndex : -1;
 
+  // Comparison mode adds a spiral instead of replacing the active one
   const handleSelectAsset = (selectedAsset: Asset) => {
-    setAsset(selectedAsset);
+    if (addAsComparison) {
+      addSeries(selectedAsset);
+    } else {
+      setAsset(selectedAsset);
+    }
+  };
+
+  const handleSelectResult = (result: Asset) => {
+    handleSelectAsset(result);
+    setCustomSymbol('');
+    setIsDropdownOpen(false);
+    setHighlightIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setIsDropdownOpen(true);
+        setHighlightIndex(Math.min(activeIndex + 1, searchResults.length - 1));
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightIndex(Math.max(activeIndex - 1, -1));
+        break;
+      case 'Enter':
+        // A highlighted suggestion wins over the raw symbol
+        if (showDropdown && activeIndex >= 0) {
+          e.preventDefault();
+          handleSelectResult(searchResults[activeIndex]);
+        }
+        break;
+      case 'Escape':
+        setIsDropdownOpen(false);
+        setHighlightIndex(-1);
+        break;
+    }
   };
 
   const handleCustomSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    setIsDropdownOpen(false);
     if (customSymbol.trim()) {
-      setAsset({
+      handleSelectAsset({
         symbol: customSymbol.trim().toUpperCase(),
         name: customSymbol.trim().toUpperCase(),
         type: 'stock' as AssetType,
@@ -53,23 +109,79 @@ export function AssetSelector() {
         </div>
       )}
 
-      {/* Custom symbol input */}
+      {/* Custom symbol input with autocomplete */}
       <form onSubmit={handleCustomSubmit} className="flex gap-2">
-        <input
-          type="text"
-          value={customSymbol}
-          onChange={(e) => setCustomSymbol(e.target.value)}
-          placeholder="Enter symbol..."
-          className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-orange-500"
-        />
+        <div className="relative flex-1">
+          <input
+            type="text"
+            value={customSymbol}
+            onChange={(e) => {
+              setCustomSymbol(e.target.value);
+              setIsDropdownOpen(true);
+              setHighlightIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsDropdownOpen(true)}
+            onBlur={() => setIsDropdownOpen(false)}
+            placeholder="Search symbol or name..."
+            role="combobox"
+            aria-expanded={showDropdown}
+            aria-controls="asset-search-results"
+            aria-autocomplete="list"
+            aria-activedescendant={activeIndex >= 0 ? `asset-search-result-${activeIndex}` : undefined}
+            className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-orange-500"
+          />
+
+          {showDropdown && (
+            <ul
+              id="asset-search-results"
+              role="listbox"
+              className="absolute z-10 left-0 right-0 mt-1 bg-gray-800 border border-gray-700 rounded-lg shadow-xl overflow-hidden"
+            >
+              {searchResults.map((result, i) => (
+                <li
+                  key={result.symbol}
+                  id={`asset-search-result-${i}`}
+                  role="option"
+                  aria-selected={i === activeIndex}
+                  // mousedown fires before the input blurs and closes the list
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    handleSelectResult(result);
+                  }}
+                  onMouseEnter={() => setHighlightIndex(i)}
+                  className={`px-3 py-2 cursor-pointer ${
+                    i === activeIndex ? 'bg-gray-700' : ''
+                  }`}
+                >
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="font-medium text-white">{result.symbol}</span>
+                    <span className="text-xs text-gray-500">{result.type}</span>
+                  </div>
+                  <div className="text-xs text-gray-400 truncate">{result.name}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
         <button
           type="submit"
           className="bg-orange-600 hover:bg-orange-700 text-white px-4 py-2 rounded-lg transition-colors"
         >
-          Load
+          {addAsComparison ? 'Add' : 'Load'}
         </button>
       </form>
 
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={addAsComparison}
+          onChange={(e) => setAddAsComparison(e.target.checked)}
+          className="accent-orange-500"
+        />
+        Add as comparison
+      </label>
+
       {/* Popular assets */}
       <div className="space-y-2">
         <div className="text-xs text-gray-500 uppercase tracking-wider">
@@ -83,7 +195,9 @@ export function AssetSelector() {
               className={`px-3 py-1 rounded-full text-sm transition-colors ${
                 asset?.symbol === a.symbol
                   ? 'bg-orange-600 text-white'
-                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  : seriesList.some((s) => s.asset.symbol === a.symbol)
+                    ? 'bg-gray-700 text-white'
+                    : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
               }`}
             >
               {a.symbol}
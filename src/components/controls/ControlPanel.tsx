@@ -1,12 +1,21 @@
 'use client';
 
 import { AssetSelector } from './AssetSelector';
+import { DataImport } from './DataImport';
+import { SeriesLegend } from './SeriesLegend';
+import { RatioSelector } from './RatioSelector';
+import { DataQualityPanel } from './DataQualityPanel';
+import { LiveIndicator } from './LiveIndicator';
 import { CycleConfig } from './CycleConfig';
 import { useAppStore } from '@/store/useAppStore';
 import { formatPrice } from '@/lib/spiral/geometry';
+import { useSpiralData, usePriceUnit, useRealPriceLabel } from '@/hooks/useSpiralData';
 
 export function ControlPanel() {
-  const { priceData, asset, isLoading, error } = useAppStore();
+  const { asset, ratioAsset, isLoading, error } = useAppStore();
+  const priceData = useSpiralData();
+  const priceUnit = usePriceUnit();
+  const realPriceLabel = useRealPriceLabel();
 
   // Calculate some stats for display
   const stats = priceData.length > 0 ? {
@@ -30,6 +39,18 @@ export function ControlPanel() {
         {/* Asset Selector */}
         <AssetSelector />
 
+        {/* Import a series from a local file */}
+        <DataImport />
+
+        {/* Series drawn together, with visibility toggles */}
+        <SeriesLegend />
+
+        {/* Price the spiral in another asset */}
+        <RatioSelector />
+
+        {/* Live update toggle and connection state */}
+        <LiveIndicator />
+
         {/* Loading/Error states */}
         {isLoading && (
           <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-3 text-blue-300 text-sm">
@@ -47,8 +68,11 @@ export function ControlPanel() {
         {stats && asset && (
           <div className="bg-gray-800 rounded-lg p-4 space-y-2">
             <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider mb-3">
-              {asset.symbol} Stats
+              {priceUnit === 'ratio' && ratioAsset ? `${asset.symbol}/${ratioAsset.symbol}` : asset.symbol} Stats
             </h3>
+            {realPriceLabel && (
+              <p className="text-xs text-gray-500 -mt-2">{realPriceLabel}</p>
+            )}
             <div className="grid grid-cols-2 gap-2 text-sm">
               <div>
                 <div className="text-gray-500">Data Points</div>
@@ -62,24 +86,27 @@ export function ControlPanel() {
               </div>
               <div>
                 <div className="text-gray-500">Start</div>
-                <div className="text-white font-medium">{formatPrice(stats.startPrice)}</div>
+                <div className="text-white font-medium">{formatPrice(stats.startPrice, priceUnit)}</div>
               </div>
               <div>
                 <div className="text-gray-500">End</div>
-                <div className="text-white font-medium">{formatPrice(stats.endPrice)}</div>
+                <div className="text-white font-medium">{formatPrice(stats.endPrice, priceUnit)}</div>
               </div>
               <div>
                 <div className="text-gray-500">Min</div>
-                <div className="text-white font-medium">{formatPrice(stats.minPrice)}</div>
+                <div className="text-white font-medium">{formatPrice(stats.minPrice, priceUnit)}</div>
               </div>
               <div>
                 <div className="text-gray-500">Max</div>
-                <div className="text-white font-medium">{formatPrice(stats.maxPrice)}</div>
+                <div className="text-white font-medium">{formatPrice(stats.maxPrice, priceUnit)}</div>
               </div>
             </div>
           </div>
         )}
 
+        {/* What the cleaning stage found and how it handles it */}
+        <DataQualityPanel />
+
         {/* Divider */}
         <hr className="border-gray-800" />
 
@@ -1,7 +1,14 @@
 'use client';
 
 import { useAppStore } from '@/store/useAppStore';
-import { CycleDuration, PriceScale, ColorMode } from '@/types';
+import { CycleDuration, CycleAnchor, TimeBasis, PriceScale, ColorMode, PriceInterval, PriceBasis, Resolution, SpiralStyle, LinearOrigin } from '@/types';
+import { INTRADAY_MAX_DAYS, isIntradayInterval } from '@/lib/data/intervals';
+import { DISPLAY_CURRENCIES } from '@/lib/data/currency';
+import { describeBucket, resolveResolution } from '@/lib/data/resample';
+import { RealPricesConfig } from './RealPricesConfig';
+import { CycleEventsConfig } from './CycleEventsConfig';
+import { IndicatorsConfig } from './IndicatorsConfig';
+import { DetectedCycles } from './DetectedCycles';
 
 const CYCLE_OPTIONS: { value: CycleDuration; label: string; description: string }[] = [
   { value: 'daily', label: 'Daily', description: '1 day = 360°' },
@@ -10,6 +17,58 @@ const CYCLE_OPTIONS: { value: CycleDuration; label: string; description: string
   { value: 'quarterly', label: 'Quarterly', description: '1 quarter = 360°' },
   { value: 'annual', label: 'Annual', description: '1 year = 360°' },
   { value: 'custom', label: 'Custom', description: 'Set your own period' },
+  { value: 'events', label: 'Events', description: 'Between event dates' },
+];
+
+const CYCLE_ANCHOR_OPTIONS: { value: CycleAnchor; label: string; description: string }[] = [
+  { value: 'firstBar', label: 'First Bar', description: 'Fixed day counts from the first bar' },
+  { value: 'calendar', label: 'Calendar', description: 'Same date, same angle every cycle' },
+];
+
+const TIME_BASIS_OPTIONS: { value: TimeBasis; label: string; description: string }[] = [
+  { value: 'calendar', label: 'Calendar Days', description: 'Weekends and holidays leave gaps' },
+  { value: 'sessions', label: 'Sessions', description: 'Trading sessions only: 5 per week, 252 per year' },
+];
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const LINEAR_ORIGIN_OPTIONS: { value: LinearOrigin; label: string; description: string }[] = [
+  { value: 'zero', label: 'From Zero', description: 'Radius proportional to price' },
+  { value: 'min', label: 'From Low', description: 'Lowest price at the center, to spread narrow ranges' },
+];
+
+const SPIRAL_STYLE_OPTIONS: { value: SpiralStyle; label: string; description: string }[] = [
+  { value: 'line', label: 'Line', description: 'A line through the closing prices' },
+  { value: 'ribbon', label: 'Ribbon', description: 'Each bar spans its low to high range' },
+];
+
+const PRICE_SCALE_OPTIONS: { value: PriceScale; label: string; description: string }[] = [
+  { value: 'logarithmic', label: 'Logarithmic', description: 'Best for assets with large price ranges (e.g., BTC)' },
+  { value: 'linear', label: 'Linear', description: 'Direct price mapping, best for stable assets' },
+  { value: 'cyclePercent', label: '% From Start', description: 'Change since each cycle began, to compare cycle shapes' },
+  { value: 'cycleZScore', label: 'Z-Score', description: "Change since cycle start in units of that cycle's volatility" },
+];
+
+const INTERVAL_OPTIONS: { value: PriceInterval; label: string }[] = [
+  { value: '1m', label: '1m' },
+  { value: '5m', label: '5m' },
+  { value: '15m', label: '15m' },
+  { value: '1h', label: '1h' },
+  { value: '1d', label: '1D' },
+];
+
+const RESOLUTION_OPTIONS: { value: Resolution; label: string }[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'native', label: 'Native' },
+  { value: 'weekly', label: 'Week' },
+  { value: 'monthly', label: 'Month' },
+  { value: 'nDay', label: 'N-Day' },
+];
+
+const PRICE_BASIS_OPTIONS: { value: PriceBasis; label: string; description: string }[] = [
+  { value: 'raw', label: 'Raw', description: 'As traded, splits show as cliffs' },
+  { value: 'splitAdjusted', label: 'Split-adj.', description: 'Back-adjusted for splits' },
+  { value: 'totalReturn', label: 'Total Return', description: 'Split-adjusted, dividends reinvested' },
 ];
 
 const COLOR_MODE_OPTIONS: { value: ColorMode; label: string; description: string }[] = [
@@ -18,10 +77,12 @@ const COLOR_MODE_OPTIONS: { value: ColorMode; label: string; description: string
   { value: 'volatility', label: 'Volatility', description: 'Blue = calm, Red = volatile' },
   { value: 'cyclePosition', label: 'Seasonal', description: 'Patterns at same cycle position' },
   { value: 'price', label: 'Price', description: 'Absolute price level' },
+  { value: 'volume', label: 'Volume', description: 'Dark = thin, bright = heavy trading' },
+  { value: 'volumeAnomaly', label: 'Volume Spikes', description: 'Red = above recent average' },
 ];
 
 export function CycleConfig() {
-  const { config, setCycleDuration, setCustomDays, setPriceScale, setColorMode, setCycleOverlay, setDateRange } = useAppStore();
+  const { config, priceData, setResolution, setResolutionDays, setCycleDuration, setCustomDays, setCycleAnchor, setTimeBasis, setFiscalYearStartMonth, setPriceScale, setLinearOrigin, setColorMode, setCycleOverlay, setDateRange, setPriceInterval, setPriceBasis, setShowCorporateEvents, setSpiralStyle, setShowCandleBodies, setVolumeWidth, setDisplayCurrency } = useAppStore();
 
   const handleCycleChange = (value: string) => {
     setCycleDuration(value as CycleDuration);
@@ -83,6 +144,53 @@ export function CycleConfig() {
         </div>
       </div>
 
+      {/* Spiral Style */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+          Spiral Style
+        </h3>
+        <div className="flex gap-2">
+          {SPIRAL_STYLE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setSpiralStyle(option.value)}
+              className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                config.spiralStyle === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {SPIRAL_STYLE_OPTIONS.find((option) => option.value === config.spiralStyle)?.description}
+        </p>
+        {config.spiralStyle === 'ribbon' && (
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.showCandleBodies}
+              onChange={(e) => setShowCandleBodies(e.target.checked)}
+              className="accent-orange-500"
+            />
+            Show open–close bodies
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.volumeWidth}
+            onChange={(e) => setVolumeWidth(e.target.checked)}
+            className="accent-orange-500"
+          />
+          Line width follows volume
+        </label>
+      </div>
+
+      <IndicatorsConfig />
+
       {/* Cycle Overlay Toggle */}
       <div className="space-y-3">
         <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
@@ -147,9 +255,145 @@ export function CycleConfig() {
               min={1}
               className="w-24 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-orange-500"
             />
-            <span className="text-gray-400">days = 360°</span>
+            <span className="text-gray-400">{config.timeBasis === 'sessions' ? 'sessions' : 'days'} = 360°</span>
           </div>
         )}
+
+        {/* One-click suggestions from the series' own dominant periods */}
+        <DetectedCycles />
+
+        {/* Variable-length cycles between event dates */}
+        {config.cycleDuration === 'events' && <CycleEventsConfig />}
+
+        {/* Time axis: calendar days or trading sessions */}
+        <div className="flex gap-2">
+          {TIME_BASIS_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setTimeBasis(option.value)}
+              className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                config.timeBasis === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {TIME_BASIS_OPTIONS.find((option) => option.value === config.timeBasis)?.description}
+        </p>
+
+        {/* Where cycles start; custom cycles have no calendar unit, event cycles start at their dates and sessions count from the first bar */}
+        {config.cycleDuration !== 'custom' && config.cycleDuration !== 'events' && config.timeBasis === 'calendar' && (
+          <>
+            <div className="flex gap-2">
+              {CYCLE_ANCHOR_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setCycleAnchor(option.value)}
+                  className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                    config.cycleAnchor === option.value
+                      ? 'bg-orange-600 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {CYCLE_ANCHOR_OPTIONS.find((option) => option.value === config.cycleAnchor)?.description}
+            </p>
+          </>
+        )}
+
+        {/* Fiscal year start for calendar quarters and years */}
+        {config.cycleAnchor === 'calendar' && config.timeBasis === 'calendar' && (config.cycleDuration === 'annual' || config.cycleDuration === 'quarterly') && (
+          <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+            Year starts in
+            <select
+              value={config.fiscalYearStartMonth}
+              onChange={(e) => setFiscalYearStartMonth(parseInt(e.target.value, 10))}
+              className="bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-orange-500"
+            >
+              {MONTH_NAMES.map((name, month) => (
+                <option key={month} value={month}>{name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {/* Bar Interval */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+          Bar Interval
+        </h3>
+        <div className="flex gap-2">
+          {INTERVAL_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setPriceInterval(option.value)}
+              className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                config.interval === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {isIntradayInterval(config.interval)
+            ? `Intraday data covers the last ${INTRADAY_MAX_DAYS[config.interval]} days; the date range is clamped to fit`
+            : 'One bar per trading day'}
+        </p>
+      </div>
+
+      {/* Resolution */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+          Resolution
+        </h3>
+        <div className="flex gap-1">
+          {RESOLUTION_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setResolution(option.value)}
+              className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                config.resolution === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {config.resolution === 'nDay' && (
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="1"
+              max="365"
+              value={config.resolutionDays}
+              onChange={(e) => {
+                const days = parseInt(e.target.value, 10);
+                if (!isNaN(days) && days > 0) setResolutionDays(days);
+              }}
+              className="w-20 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-orange-500"
+            />
+            <span className="text-gray-400 text-sm">days per bar</span>
+          </div>
+        )}
+        {config.resolution === 'auto' && priceData.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Drawing {describeBucket(resolveResolution(priceData, config))} bars
+          </p>
+        )}
       </div>
 
       {/* Price Scale */}
@@ -157,35 +401,112 @@ export function CycleConfig() {
         <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
           Price Scale
         </h3>
+        <div className="grid grid-cols-2 gap-2">
+          {PRICE_SCALE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => handleScaleChange(option.value)}
+              className={`py-2 px-4 rounded-lg transition-colors ${
+                config.priceScale === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {PRICE_SCALE_OPTIONS.find((option) => option.value === config.priceScale)?.description}
+        </p>
+        {config.priceScale === 'linear' && (
+          <>
+            <div className="flex gap-2">
+              {LINEAR_ORIGIN_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setLinearOrigin(option.value)}
+                  className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+                    config.linearOrigin === option.value
+                      ? 'bg-orange-600 text-white'
+                      : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              {LINEAR_ORIGIN_OPTIONS.find((option) => option.value === config.linearOrigin)?.description}
+            </p>
+          </>
+        )}
+      </div>
+
+      {/* Price Basis */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+          Price Basis
+        </h3>
         <div className="flex gap-2">
-          <button
-            onClick={() => handleScaleChange('logarithmic')}
-            className={`flex-1 py-2 px-4 rounded-lg transition-colors ${
-              config.priceScale === 'logarithmic'
-                ? 'bg-orange-600 text-white'
-                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-            }`}
-          >
-            Logarithmic
-          </button>
-          <button
-            onClick={() => handleScaleChange('linear')}
-            className={`flex-1 py-2 px-4 rounded-lg transition-colors ${
-              config.priceScale === 'linear'
-                ? 'bg-orange-600 text-white'
-                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
-            }`}
-          >
-            Linear
-          </button>
+          {PRICE_BASIS_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setPriceBasis(option.value)}
+              className={`flex-1 py-2 px-2 rounded-lg text-sm transition-colors ${
+                config.priceBasis === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
         <p className="text-xs text-gray-500">
-          {config.priceScale === 'logarithmic'
-            ? 'Best for assets with large price ranges (e.g., BTC)'
-            : 'Direct price mapping, best for stable assets'}
+          {PRICE_BASIS_OPTIONS.find((option) => option.value === config.priceBasis)?.description}
         </p>
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.showCorporateEvents}
+            onChange={(e) => setShowCorporateEvents(e.target.checked)}
+            className="accent-orange-500"
+          />
+          Show dividends &amp; splits
+        </label>
       </div>
 
+      {/* Display Currency */}
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+          Currency
+        </h3>
+        <div className="flex gap-2">
+          {DISPLAY_CURRENCIES.map((currency) => (
+            <button
+              key={currency}
+              onClick={() => setDisplayCurrency(currency)}
+              className={`flex-1 py-2 px-2 rounded-lg text-sm transition-colors ${
+                config.displayCurrency === currency
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {currency}
+            </button>
+          ))}
+        </div>
+        {config.displayCurrency !== 'USD' && (
+          <p className="text-xs text-gray-500">
+            USD prices converted at each day&apos;s exchange rate
+          </p>
+        )}
+      </div>
+
+      {/* Inflation adjustment */}
+      <RealPricesConfig />
+
       {/* Date Range */}
       <div className="space-y-3">
         <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
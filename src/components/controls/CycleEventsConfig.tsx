@@ -0,0 +1,97 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { CYCLE_EVENT_PRESETS, meanEventCycleDays, parseEventDates } from '@/lib/spiral/cycleEvents';
+
+const CUSTOM_EVENTS_NAME = 'Custom dates';
+
+function formatDates(dates: Date[]): string {
+  return dates.map((date) => date.toISOString().slice(0, 10)).join('\n');
+}
+
+/**
+ * Boundary dates for event-defined cycles: a preset, dates typed in, or
+ * the first column of a CSV
+ */
+export function CycleEventsConfig() {
+  const { config, setCycleEvents } = useAppStore();
+  const { cycleEvents } = config;
+  // Draft text, committed on blur so partial dates aren't parsed mid-typing
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyText = (text: string, name: string) => {
+    const dates = parseEventDates(text);
+    if (dates.length < 2) {
+      setError('Enter at least two dates (YYYY-MM-DD)');
+      return;
+    }
+    setError(null);
+    setCycleEvents({ name, dates });
+  };
+
+  const handleFile = async (file: File) => {
+    applyText(await file.text(), file.name);
+  };
+
+  const meanDays = meanEventCycleDays(cycleEvents.dates);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        {CYCLE_EVENT_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => {
+              setError(null);
+              setDraft(null);
+              setCycleEvents(preset.set);
+            }}
+            className={`flex-1 py-2 rounded-lg text-sm transition-colors ${
+              cycleEvents.name === preset.set.name
+                ? 'bg-orange-600 text-white'
+                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {preset.set.name}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={draft ?? formatDates(cycleEvents.dates)}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => {
+          if (draft === null) return;
+          applyText(draft, CUSTOM_EVENTS_NAME);
+          setDraft(null);
+        }}
+        rows={4}
+        spellCheck={false}
+        className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-xs font-mono focus:outline-none focus:border-orange-500"
+      />
+
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-gray-400 truncate">
+          {cycleEvents.name}: {cycleEvents.dates.length} dates
+          {meanDays !== null && `, ~${Math.round(meanDays)} days per cycle`}
+        </span>
+        <label className="text-orange-400 hover:text-orange-300 cursor-pointer shrink-0">
+          Load CSV…
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import {
+  ImportTable,
+  ImportField,
+  ColumnMapping,
+  DateFormat,
+  IMPORT_FIELDS,
+  DATE_FORMAT_LABELS,
+  parseImportFile,
+  detectColumnMapping,
+  detectDateFormat,
+  tableToPricePoints,
+} from '@/lib/data/importSeries';
+import { cleanPriceData } from '@/lib/data/quality';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  date: 'Date',
+  close: 'Close',
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  volume: 'Volume',
+};
+
+// Maximum number of row errors listed before summarising
+const MAX_LISTED_ERRORS = 5;
+
+export function DataImport() {
+  const { config, setAsset, setPriceData, setError } = useAppStore();
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [seriesName, setSeriesName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [dateFormat, setDateFormat] = useState<DateFormat>('iso');
+  const [detectedFormat, setDetectedFormat] = useState<DateFormat>('iso');
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const result = useMemo(() => {
+    if (!table || !mapping) return null;
+    return tableToPricePoints(table, mapping, dateFormat);
+  }, [table, mapping, dateFormat]);
+
+  const reset = () => {
+    setFileName('');
+    setSeriesName('');
+    setTable(null);
+    setMapping(null);
+    setParseError(null);
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setFileName(file.name);
+    setSeriesName(file.name.replace(/\.[^.]+$/, ''));
+
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.columns.length === 0 || parsed.rows.length === 0) {
+        setParseError('File contains no rows');
+        return;
+      }
+
+      const detectedMapping = detectColumnMapping(parsed.columns);
+      const dateColumn = detectedMapping.date;
+      const format = dateColumn !== null
+        ? detectDateFormat(parsed.rows.map((row) => row[dateColumn] ?? ''))
+        : 'iso';
+
+      setTable(parsed);
+      setMapping(detectedMapping);
+      setDateFormat(format);
+      setDetectedFormat(format);
+    } catch (e) {
+      setParseError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleFile(file);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  const handleImport = () => {
+    if (!result || result.points.length === 0) return;
+    const name = seriesName.trim() || fileName;
+    setAsset({
+      // Namespaced so an import never takes the place of a fetched series
+      symbol: `import:${name}`,
+      name: `${name} (imported)`,
+      type: 'custom',
+      source: 'import',
+    });
+    // Imports pass through the same quality stage as fetched data
+    const cleaned = cleanPriceData(result.points, config.dataQuality, config.interval);
+    setPriceData(cleaned.points, cleaned.report);
+    setError(null);
+    reset();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="text-xs text-gray-500 uppercase tracking-wider">
+        Import CSV / JSON
+      </div>
+
+      {/* Drop zone */}
+      <label
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`block border border-dashed rounded-lg p-3 text-center text-sm cursor-pointer transition-colors ${
+          isDragging
+            ? 'border-orange-500 bg-orange-900/20 text-orange-300'
+            : 'border-gray-700 text-gray-400 hover:border-gray-500'
+        }`}
+      >
+        {fileName || 'Drop a file or click to browse'}
+        <input
+          type="file"
+          accept=".csv,.json,.txt,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {parseError && (
+        <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-red-300 text-sm">
+          {parseError}
+        </div>
+      )}
+
+      {table && mapping && result && (
+        <div className="bg-gray-800 rounded-lg p-3 space-y-3">
+          {/* Series name */}
+          <div>
+            <label className="text-xs text-gray-500 block mb-1">Series name</label>
+            <input
+              type="text"
+              value={seriesName}
+              onChange={(e) => setSeriesName(e.target.value)}
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-orange-500"
+            />
+          </div>
+
+          {/* Column mapping */}
+          <div className="grid grid-cols-2 gap-2">
+            {IMPORT_FIELDS.map((field) => (
+              <div key={field}>
+                <label className="text-xs text-gray-500 block mb-1">
+                  {FIELD_LABELS[field]}
+                  {(field === 'date' || field === 'close') && ' *'}
+                </label>
+                <select
+                  value={mapping[field] ?? ''}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-orange-500"
+                >
+                  <option value="">—</option>
+                  {table.columns.map((column, i) => (
+                    <option key={i} value={i}>
+                      {column || `Column ${i + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Date format */}
+          <div>
+            <label className="text-xs text-gray-500 block mb-1">Date format</label>
+            <select
+              value={dateFormat}
+              onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-orange-500"
+            >
+              {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((format) => (
+                <option key={format} value={format}>
+                  {DATE_FORMAT_LABELS[format]}
+                  {format === detectedFormat ? ' (detected)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Parse summary and row errors */}
+          <div className="text-xs space-y-1">
+            <div className="text-gray-400">
+              {result.points.length.toLocaleString()} of {table.rows.length.toLocaleString()} rows usable
+            </div>
+            {result.errors.length > 0 && (
+              <ul className="text-red-300 space-y-0.5">
+                {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, i) => (
+                  <li key={i}>
+                    {error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}
+                  </li>
+                ))}
+                {result.errors.length > MAX_LISTED_ERRORS && (
+                  <li className="text-gray-500">
+                    …and {result.errors.length - MAX_LISTED_ERRORS} more
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleImport}
+              disabled={result.points.length === 0}
+              className="flex-1 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-700 disabled:text-gray-500 text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Import
+            </button>
+            <button
+              onClick={reset}
+              className="bg-gray-700 hover:bg-gray-600 text-gray-300 px-4 py-2 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
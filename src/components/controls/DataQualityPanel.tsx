@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { QualityIssueType, QualityPolicy } from '@/types';
+import { QUALITY_ISSUE_LABELS, countIssues } from '@/lib/data/quality';
+
+const POLICY_OPTIONS: { value: QualityPolicy; label: string }[] = [
+  { value: 'drop', label: 'Drop' },
+  { value: 'forwardFill', label: 'Fill' },
+  { value: 'flag', label: 'Flag' },
+];
+
+// Issues shown when the list is expanded
+const MAX_LISTED_ISSUES = 20;
+
+function PolicySelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: QualityPolicy;
+  onChange: (policy: QualityPolicy) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as QualityPolicy)}
+        className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-orange-500"
+      >
+        {POLICY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function DataQualityPanel() {
+  const { asset, seriesList, config, setDataQuality } = useAppStore();
+  const [showIssues, setShowIssues] = useState(false);
+
+  const report = seriesList.find((s) => s.asset.symbol === asset?.symbol)?.quality;
+  if (!report) return null;
+
+  const total = countIssues(report);
+  const found = (Object.keys(report.counts) as QualityIssueType[]).filter((type) => report.counts[type] > 0);
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+          Data Quality
+        </h3>
+        <span className={`text-xs font-medium ${total === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+          {total === 0 ? 'No issues' : `${total.toLocaleString()} issue${total === 1 ? '' : 's'}`}
+        </span>
+      </div>
+
+      {found.length > 0 && (
+        <ul className="text-xs space-y-1">
+          {found.map((type) => (
+            <li key={type} className="flex justify-between text-gray-400">
+              <span>{QUALITY_ISSUE_LABELS[type]}</span>
+              <span className="text-white">{report.counts[type].toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {report.outputCount !== report.inputCount && (
+        <p className="text-xs text-gray-500">
+          {report.inputCount.toLocaleString()} bars in, {report.outputCount.toLocaleString()} kept
+        </p>
+      )}
+
+      {report.issues.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowIssues(!showIssues)}
+            className="text-xs text-orange-400 hover:text-orange-300"
+          >
+            {showIssues ? 'Hide details' : 'Show details'}
+          </button>
+          {showIssues && (
+            <ul className="mt-2 text-xs text-gray-400 space-y-0.5 max-h-40 overflow-y-auto">
+              {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, i) => (
+                <li key={i}>{issue.message}</li>
+              ))}
+              {report.issues.length > MAX_LISTED_ISSUES && (
+                <li className="text-gray-500">…and {report.issues.length - MAX_LISTED_ISSUES} more</li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Cleaning policies */}
+      <div className="space-y-2 pt-1 border-t border-gray-700">
+        <PolicySelect
+          label="Zero / NaN prices"
+          value={config.dataQuality.badPricePolicy}
+          onChange={(policy) => setDataQuality({ badPricePolicy: policy })}
+        />
+        <PolicySelect
+          label="Suspicious jumps"
+          value={config.dataQuality.jumpPolicy}
+          onChange={(policy) => setDataQuality({ jumpPolicy: policy })}
+        />
+        <label className="flex items-center justify-between gap-2 text-xs text-gray-400">
+          Jump threshold
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={5}
+              max={500}
+              step={5}
+              value={Math.round(config.dataQuality.jumpThreshold * 100)}
+              onChange={(e) => {
+                const pct = parseFloat(e.target.value);
+                if (!isNaN(pct) && pct > 0) setDataQuality({ jumpThreshold: pct / 100 });
+              }}
+              className="w-16 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-orange-500"
+            />
+            %
+          </span>
+        </label>
+      </div>
+    </div>
+  );
+}
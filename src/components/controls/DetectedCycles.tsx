@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { useSpiralData } from '@/hooks/useSpiralData';
+import { DetectedCycle, detectDominantCycles } from '@/lib/spiral/cycleDetection';
+
+// Calendar day of a bar, so live ticks within the day don't count as new history
+const dayOf = (date: Date | undefined) => date?.toISOString().slice(0, 10) ?? '';
+
+export function DetectedCycles() {
+  const { config, asset, ratioAsset, customCpi, setCycleDuration, setCustomDays } = useAppStore();
+  const priceData = useSpiralData();
+  const [detected, setDetected] = useState<{ key: string; cycles: DetectedCycle[] } | null>(null);
+
+  // The scan runs on request and its results hold until the displayed series
+  // changes: anything useSpiralData derives it from, and its first/last day
+  const historyKey = [
+    asset?.symbol,
+    ratioAsset?.symbol,
+    config.priceBasis,
+    config.displayCurrency,
+    config.realPrices,
+    config.inflationBaseDate?.toISOString(),
+    customCpi?.name,
+    config.resolution,
+    config.resolutionDays,
+    config.timeBasis,
+    dayOf(priceData[0]?.timestamp),
+    dayOf(priceData[priceData.length - 1]?.timestamp),
+  ].join('|');
+  const cycles = detected?.key === historyKey ? detected.cycles : null;
+
+  const handleDetect = () => {
+    setDetected({ key: historyKey, cycles: detectDominantCycles(priceData, { timeBasis: config.timeBasis }) });
+  };
+
+  if (priceData.length === 0) return null;
+
+  const unit = config.timeBasis === 'sessions' ? 'sessions' : 'days';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          Detected cycles: strongest repeating periods in the log returns
+        </p>
+        <button
+          onClick={handleDetect}
+          className="text-xs text-orange-400 hover:text-orange-300 shrink-0"
+        >
+          {cycles ? 'Re-run' : 'Detect'}
+        </button>
+      </div>
+      {cycles && cycles.length === 0 && (
+        <p className="text-xs text-gray-500">Not enough history to find a cycle</p>
+      )}
+      {cycles && cycles.length > 0 && (
+        <div className="flex gap-2">
+          {cycles.map((cycle) => (
+            <button
+              key={cycle.length}
+              onClick={() => {
+                setCycleDuration('custom');
+                setCustomDays(cycle.length);
+              }}
+              title={`Explains ${Math.round(cycle.strength * 100)}% of return variance, ${cycle.repetitions} repetitions in the data`}
+              className={`flex-1 p-2 rounded-lg text-left transition-colors ${
+                config.cycleDuration === 'custom' && config.customDays === cycle.length
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              <div className="font-medium text-sm">{cycle.length} {unit}</div>
+              <div className="text-xs opacity-70">{Math.round(cycle.strength * 100)}% strength</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
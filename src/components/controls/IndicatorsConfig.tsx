@@ -0,0 +1,93 @@
+'use client';
+
+import { useAppStore } from '@/store/useAppStore';
+import { IndicatorType } from '@/types';
+import { INDICATOR_TYPE_LABELS, createIndicator } from '@/lib/indicators';
+
+const INDICATOR_TYPES: IndicatorType[] = ['sma', 'ema', 'bollinger'];
+
+export function IndicatorsConfig() {
+  const { config, addIndicator, updateIndicator, removeIndicator, setShowCrossovers } = useAppStore();
+  const { indicators } = config;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+        Indicators
+      </h3>
+
+      {indicators.map((indicator) => (
+        <div key={indicator.id} className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={indicator.visible}
+            onChange={(e) => updateIndicator(indicator.id, { visible: e.target.checked })}
+            className="accent-orange-500"
+          />
+          <input
+            type="color"
+            value={indicator.color}
+            onChange={(e) => updateIndicator(indicator.id, { color: e.target.value })}
+            className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+          />
+          <span className="text-gray-300 w-16">{INDICATOR_TYPE_LABELS[indicator.type]}</span>
+          <input
+            type="number"
+            value={indicator.period}
+            min={2}
+            onChange={(e) => {
+              const period = parseInt(e.target.value, 10);
+              if (period >= 2) updateIndicator(indicator.id, { period });
+            }}
+            title="Period (bars)"
+            className="w-16 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-orange-500"
+          />
+          {indicator.type === 'bollinger' && (
+            <input
+              type="number"
+              value={indicator.stdDevs}
+              min={0.5}
+              step={0.5}
+              onChange={(e) => {
+                const stdDevs = parseFloat(e.target.value);
+                if (stdDevs > 0) updateIndicator(indicator.id, { stdDevs });
+              }}
+              title="Band width (standard deviations)"
+              className="w-14 bg-gray-800 border border-gray-700 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-orange-500"
+            />
+          )}
+          <button
+            onClick={() => removeIndicator(indicator.id)}
+            className="ml-auto text-gray-500 hover:text-white"
+            title="Remove"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        {INDICATOR_TYPES.map((type) => (
+          <button
+            key={type}
+            onClick={() => addIndicator(createIndicator(type, indicators))}
+            className="flex-1 py-2 rounded-lg text-sm transition-colors bg-gray-800 text-gray-300 hover:bg-gray-700"
+          >
+            + {INDICATOR_TYPE_LABELS[type]}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500">Periods are in bars of the drawn resolution</p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.showCrossovers}
+          onChange={(e) => setShowCrossovers(e.target.checked)}
+          className="accent-orange-500"
+        />
+        Mark golden &amp; death crosses
+      </label>
+    </div>
+  );
+}
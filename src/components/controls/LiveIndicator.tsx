@@ -0,0 +1,40 @@
+'use client';
+
+import { useAppStore } from '@/store/useAppStore';
+import { LiveStatus } from '@/types';
+
+const STATUS_STYLES: Record<LiveStatus, { label: string; dot: string; text: string }> = {
+  off: { label: 'Off', dot: 'bg-gray-500', text: 'text-gray-500' },
+  connecting: { label: 'Connecting…', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-400' },
+  live: { label: 'Live', dot: 'bg-green-400 animate-pulse', text: 'text-green-400' },
+  reconnecting: { label: 'Reconnecting…', dot: 'bg-yellow-400 animate-pulse', text: 'text-yellow-400' },
+  error: { label: 'Source error', dot: 'bg-red-500', text: 'text-red-400' },
+};
+
+export function LiveIndicator() {
+  const { asset, live, setLive, liveStatus } = useAppStore();
+
+  if (!asset) return null;
+
+  const isImport = asset.source === 'import';
+  const style = STATUS_STYLES[liveStatus];
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4 flex items-center justify-between">
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={live}
+          disabled={isImport}
+          onChange={(e) => setLive(e.target.checked)}
+          className="accent-orange-500"
+        />
+        Live updates
+      </label>
+      <span className={`flex items-center gap-1.5 text-xs font-medium ${style.text}`}>
+        <span className={`inline-block w-2 h-2 rounded-full ${style.dot}`} />
+        {isImport ? 'Imported' : style.label}
+      </span>
+    </div>
+  );
+}
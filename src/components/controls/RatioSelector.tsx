@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { Asset } from '@/types';
+
+// Common yardsticks to price an asset in
+const RATIO_BASES: Asset[] = [
+  { symbol: 'GC=F', name: 'Gold Futures', type: 'commodity' },
+  { symbol: 'SPY', name: 'S&P 500 ETF', type: 'stock' },
+  { symbol: 'BTC-USD', name: 'Bitcoin USD', type: 'crypto' },
+  { symbol: 'QQQ', name: 'Nasdaq 100 ETF', type: 'stock' },
+];
+
+export function RatioSelector() {
+  const { asset, ratioAsset, config, setRatioAsset } = useAppStore();
+  const [customSymbol, setCustomSymbol] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = customSymbol.trim().toUpperCase();
+    if (symbol) {
+      setRatioAsset({ symbol, name: symbol, type: 'stock' });
+      setCustomSymbol('');
+    }
+  };
+
+  if (!asset) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+        Priced In
+      </h3>
+      <p className="text-xs text-gray-500">
+        {ratioAsset
+          ? `${asset.symbol} / ${ratioAsset.symbol}, on sessions both traded`
+          : 'Show the spiral as a ratio to another asset'}
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => setRatioAsset(null)}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${
+            !ratioAsset
+              ? 'bg-orange-600 text-white'
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          {config.displayCurrency}
+        </button>
+        {RATIO_BASES.map((base) => (
+          <button
+            key={base.symbol}
+            onClick={() => setRatioAsset(base)}
+            title={base.name}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${
+              ratioAsset?.symbol === base.symbol
+                ? 'bg-orange-600 text-white'
+                : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+            }`}
+          >
+            {base.symbol}
+          </button>
+        ))}
+        {ratioAsset && !RATIO_BASES.some((base) => base.symbol === ratioAsset.symbol) && (
+          <span className="px-3 py-1 rounded-full text-sm bg-orange-600 text-white">
+            {ratioAsset.symbol}
+          </span>
+        )}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={customSymbol}
+          onChange={(e) => setCustomSymbol(e.target.value)}
+          placeholder="Other symbol..."
+          className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-orange-500"
+        />
+        <button
+          type="submit"
+          className="bg-gray-800 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Set
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+'use client';
+
+import { useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { BUNDLED_CPI_NAME, parseCpiCsv } from '@/lib/data/inflation';
+
+// <input type="month"> value for a date, e.g. "2024-07"
+function toMonthValue(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function RealPricesConfig() {
+  const { config, customCpi, setRealPrices, setInflationBaseDate, setCustomCpi } = useAppStore();
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFile = async (file: File) => {
+    setFileError(null);
+    try {
+      const data = parseCpiCsv(await file.text());
+      if (data.length < 2) {
+        setFileError('Expected a date column and a CPI value column with at least two rows');
+        return;
+      }
+      setCustomCpi({ name: file.name, data });
+    } catch (e) {
+      setFileError(`Could not read ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleBaseChange = (value: string) => {
+    // Clearing the field falls back to the latest CPI observation
+    setInflationBaseDate(value ? new Date(`${value}-01T00:00:00Z`) : null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+        Real Prices
+      </h3>
+      <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={config.realPrices}
+          onChange={(e) => setRealPrices(e.target.checked)}
+          className="accent-orange-500"
+        />
+        Adjust for inflation
+      </label>
+
+      {config.realPrices && (
+        <>
+          <div>
+            <label className="text-xs text-gray-500 block mb-1">Base month (blank = latest CPI)</label>
+            <input
+              type="month"
+              value={config.inflationBaseDate ? toMonthValue(config.inflationBaseDate) : ''}
+              onChange={(e) => handleBaseChange(e.target.value)}
+              className="w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1 text-white text-sm focus:outline-none focus:border-orange-500"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="text-gray-400 truncate">
+              Index: {customCpi ? customCpi.name : BUNDLED_CPI_NAME}
+            </span>
+            {customCpi ? (
+              <button
+                onClick={() => setCustomCpi(null)}
+                className="text-gray-500 hover:text-white shrink-0"
+              >
+                Use bundled
+              </button>
+            ) : (
+              <label className="text-orange-400 hover:text-orange-300 cursor-pointer shrink-0">
+                Load CSV…
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            )}
+          </div>
+          {fileError && <p className="text-xs text-red-400">{fileError}</p>}
+        </>
+      )}
+    </div>
+  );
+}
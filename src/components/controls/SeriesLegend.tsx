@@ -0,0 +1,130 @@
+'use client';
+
+import { useAppStore } from '@/store/useAppStore';
+import { SeriesAlignment, SeriesRadiusScale } from '@/types';
+
+const ALIGNMENT_OPTIONS: { value: SeriesAlignment; label: string; description: string }[] = [
+  { value: 'calendar', label: 'Calendar', description: 'Same date at the same height' },
+  { value: 'start', label: 'Series Start', description: 'Every series starts at the bottom' },
+];
+
+const RADIUS_SCALE_OPTIONS: { value: SeriesRadiusScale; label: string; description: string }[] = [
+  { value: 'shared', label: 'Shared', description: 'One price scale for all series' },
+  { value: 'perSeries', label: 'Per Series', description: 'Each series fills the same width' },
+];
+
+export function SeriesLegend() {
+  const {
+    asset,
+    seriesList,
+    config,
+    setAsset,
+    removeSeries,
+    setSeriesVisible,
+    setSeriesAlignment,
+    setSeriesRadiusScale,
+  } = useAppStore();
+
+  // A single series needs no legend
+  if (seriesList.length < 2) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-300 uppercase tracking-wider">
+        Series
+      </h3>
+
+      <ul className="space-y-1">
+        {seriesList.map((series) => {
+          const isActive = series.asset.symbol === asset?.symbol;
+          return (
+            <li
+              key={series.asset.symbol}
+              className={`flex items-center gap-2 rounded-lg px-2 py-1 ${
+                isActive ? 'bg-gray-800' : ''
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={series.visible}
+                onChange={(e) => setSeriesVisible(series.asset.symbol, e.target.checked)}
+                aria-label={`Show ${series.asset.symbol}`}
+                className="accent-orange-500"
+              />
+              <span
+                className="w-3 h-3 rounded-full shrink-0"
+                style={{ backgroundColor: series.color, opacity: series.visible ? 1 : 0.3 }}
+              />
+              {/* Clicking a series makes it the one shown in stats */}
+              <button
+                onClick={() => setAsset(series.asset)}
+                className={`flex-1 text-left text-sm truncate ${
+                  series.visible ? 'text-white' : 'text-gray-500'
+                }`}
+                title={series.asset.name}
+              >
+                {series.asset.symbol}
+                {series.priceData.length === 0 && (
+                  <span className="text-xs text-gray-500 ml-2">loading…</span>
+                )}
+              </button>
+              <button
+                onClick={() => removeSeries(series.asset.symbol)}
+                aria-label={`Remove ${series.asset.symbol}`}
+                className="text-gray-500 hover:text-white px-1"
+              >
+                ×
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Time alignment */}
+      <div className="space-y-2">
+        <div className="text-xs text-gray-500 uppercase tracking-wider">Align By</div>
+        <div className="flex gap-2">
+          {ALIGNMENT_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setSeriesAlignment(option.value)}
+              className={`flex-1 py-2 px-2 rounded-lg text-sm transition-colors ${
+                config.seriesAlignment === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {ALIGNMENT_OPTIONS.find((option) => option.value === config.seriesAlignment)?.description}
+        </p>
+      </div>
+
+      {/* Radius scale */}
+      <div className="space-y-2">
+        <div className="text-xs text-gray-500 uppercase tracking-wider">Price Radius</div>
+        <div className="flex gap-2">
+          {RADIUS_SCALE_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setSeriesRadiusScale(option.value)}
+              className={`flex-1 py-2 px-2 rounded-lg text-sm transition-colors ${
+                config.seriesRadiusScale === option.value
+                  ? 'bg-orange-600 text-white'
+                  : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {RADIUS_SCALE_OPTIONS.find((option) => option.value === config.seriesRadiusScale)?.description}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useAppStore } from '@/store/useAppStore';
+import { ViewMode } from '@/types';
+
+const VIEW_MODE_OPTIONS: { value: ViewMode; label: string }[] = [
+  { value: '3d', label: '3D' },
+  { value: '2d', label: '2D' },
+];
+
+export function ViewModeToggle() {
+  const { viewMode, setViewMode } = useAppStore();
+
+  return (
+    <div className="flex gap-1 bg-gray-900/80 rounded-lg p-1">
+      {VIEW_MODE_OPTIONS.map((option) => (
+        <button
+          key={option.value}
+          onClick={() => setViewMode(option.value)}
+          className={`px-3 py-1 rounded-md text-sm transition-colors ${
+            viewMode === option.value
+              ? 'bg-orange-600 text-white'
+              : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
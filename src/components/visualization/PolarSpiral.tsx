@@ -0,0 +1,269 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { useAppStore } from '@/store/useAppStore';
+import { useRealPriceLabel, usePriceUnit, useSeriesLayouts, useSpiralSeries } from '@/hooks/useSpiralData';
+import {
+  priceSeriesToSpiral,
+  calculatePriceLevelRings,
+  formatPriceLevel,
+  formatPrice,
+  getColorForPoint,
+  preCalculateColorData,
+  volumeWidthFactor,
+} from '@/lib/spiral/geometry';
+import { getAngularTicks, polarToPlane, toPolarPlane } from '@/lib/spiral/polar';
+import { isIntradayInterval } from '@/lib/data/intervals';
+
+// Bars the data-quality stage kept but marked as suspect (as in the 3D view)
+const FLAGGED_COLOR = '#facc15';
+
+// Room around the outermost ring for tick labels, in plane units
+const LABEL_MARGIN = 1.2;
+
+// How close the pointer must be to a point to show its tooltip, in plane units
+const HOVER_DISTANCE = 0.3;
+
+interface PolarPlot {
+  symbol: string;
+  color: string;
+  timestamps: Date[];
+  prices: number[];
+  plane: [number, number][];
+  colors: string[];
+  widths: number[]; // Stroke width multiplier per point
+}
+
+interface HoveredPoint {
+  plot: number;
+  index: number;
+  left: number; // Pointer position within the container, in px
+  top: number;
+}
+
+/**
+ * Top-down 2D polar chart of the same spiral points as the 3D view: angle is
+ * the position within the cycle, radius the price, and every cycle one loop
+ */
+export function PolarSpiral() {
+  const { config } = useAppStore();
+  const displaySeries = useSpiralSeries();
+  const isMultiSeries = displaySeries.length > 1;
+  const { layouts, rings: ringSource } = useSeriesLayouts(displaySeries);
+  const priceUnit = usePriceUnit();
+  const realPriceLabel = useRealPriceLabel();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hoveredPoint, setHoveredPoint] = useState<HoveredPoint | null>(null);
+
+  const plots = useMemo<PolarPlot[]>(() => {
+    return displaySeries.map(({ series, priceData }, i) => {
+      const layout = layouts[i];
+      const points = priceSeriesToSpiral(priceData, config, {
+        verticalScale: layout.verticalScale,
+        radiusScale: layout.radiusScale,
+        priceOrigin: layout.priceOrigin,
+        minRadius: 0.3,
+        baseDate: layout.baseDate,
+      });
+
+      const colorData = preCalculateColorData(priceData, config);
+      const tint = isMultiSeries ? new THREE.Color(series.color) : null;
+      const colors = priceData.map((point, index) => {
+        if (point.qualityFlag) return FLAGGED_COLOR;
+        const color = getColorForPoint(index, priceData, config.colorMode, config, colorData);
+        return `#${(tint ? color.lerp(tint, 0.5) : color).getHexString()}`;
+      });
+
+      return {
+        symbol: series.asset.symbol,
+        color: series.color,
+        timestamps: priceData.map((point) => point.timestamp),
+        prices: priceData.map((point) => point.price),
+        plane: points.map(toPolarPlane),
+        colors,
+        widths: config.volumeWidth ? colorData.relativeVolumes.map(volumeWidthFactor) : priceData.map(() => 1),
+      };
+    });
+  }, [displaySeries, layouts, config, isMultiSeries]);
+
+  const rings = useMemo(
+    () => (ringSource ? calculatePriceLevelRings(ringSource.priceData, config, ringSource.scaling) : []),
+    [ringSource, config]
+  );
+
+  // Ticks follow the active series' time origin
+  const ticks = useMemo(() => {
+    if (displaySeries.length === 0) return [];
+    const index = Math.max(displaySeries.findIndex((s) => s.isActive), 0);
+    return getAngularTicks(config, layouts[index].baseDate);
+  }, [displaySeries, layouts, config]);
+
+  const outerRadius = Math.max(
+    1,
+    ...rings.map((ring) => ring.radius),
+    ...plots.flatMap((plot) => plot.plane.map(([x, y]) => Math.hypot(x, y)))
+  );
+  const extent = outerRadius + LABEL_MARGIN;
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const container = containerRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !container || !matrix) return;
+
+    const pointer = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    let nearest = { plot: -1, index: -1, distance: HOVER_DISTANCE };
+    for (let p = 0; p < plots.length; p++) {
+      plots[p].plane.forEach(([x, y], index) => {
+        const distance = Math.hypot(x - pointer.x, y - pointer.y);
+        if (distance < nearest.distance) nearest = { plot: p, index, distance };
+      });
+    }
+
+    if (nearest.plot < 0) {
+      setHoveredPoint(null);
+      return;
+    }
+    const bounds = container.getBoundingClientRect();
+    setHoveredPoint({
+      plot: nearest.plot,
+      index: nearest.index,
+      left: event.clientX - bounds.left,
+      top: event.clientY - bounds.top,
+    });
+  };
+
+  if (plots.length === 0) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-950">
+        <div className="text-gray-400">No price data to plot</div>
+      </div>
+    );
+  }
+
+  const hovered = hoveredPoint ? plots[hoveredPoint.plot] : null;
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full min-h-[400px] bg-gray-950">
+      <svg
+        ref={svgRef}
+        viewBox={`${-extent} ${-extent} ${extent * 2} ${extent * 2}`}
+        className="w-full h-full"
+        onPointerMove={handlePointerMove}
+        onPointerLeave={() => setHoveredPoint(null)}
+      >
+        {/* Angular ticks: spokes and labels */}
+        {ticks.map((tick, i) => {
+          const [x, y] = polarToPlane(outerRadius, tick.angle);
+          const [labelX, labelY] = polarToPlane(outerRadius + 0.5, tick.angle);
+          return (
+            <g key={i}>
+              <line x1={0} y1={0} x2={x} y2={y} stroke="#333333" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+              <text
+                x={labelX}
+                y={labelY}
+                fontSize={0.28}
+                fill="#888888"
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {tick.label}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* Price level rings and radial labels */}
+        {rings.map((ring, i) => {
+          const [labelX, labelY] = polarToPlane(ring.radius, Math.PI / 8);
+          return (
+            <g key={i}>
+              <circle
+                r={ring.radius}
+                fill="none"
+                stroke="#555555"
+                strokeWidth={1}
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+              <text x={labelX + 0.08} y={labelY} fontSize={0.22} fill="#888888" dominantBaseline="middle">
+                {formatPriceLevel(ring.price, config.priceScale, priceUnit)}
+              </text>
+            </g>
+          );
+        })}
+
+        {/* One colored segment per bar, so color modes carry over from 3D */}
+        {plots.map((plot) => (
+          <g key={plot.symbol}>
+            {plot.plane.slice(1).map(([x, y], i) => (
+              <line
+                key={i}
+                x1={plot.plane[i][0]}
+                y1={plot.plane[i][1]}
+                x2={x}
+                y2={y}
+                stroke={plot.colors[i + 1]}
+                strokeWidth={2 * plot.widths[i + 1]}
+                strokeLinecap="round"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+
+            {/* Start (green) and current price markers */}
+            <circle cx={plot.plane[0][0]} cy={plot.plane[0][1]} r={0.1} fill="#00ff00" />
+            <circle
+              cx={plot.plane[plot.plane.length - 1][0]}
+              cy={plot.plane[plot.plane.length - 1][1]}
+              r={0.12}
+              fill={plot.colors[plot.colors.length - 1]}
+              stroke="#ffffff"
+              strokeWidth={1}
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+        ))}
+
+        {/* Hovered point */}
+        {hovered && hoveredPoint && (
+          <circle
+            cx={hovered.plane[hoveredPoint.index][0]}
+            cy={hovered.plane[hoveredPoint.index][1]}
+            r={0.1}
+            fill="none"
+            stroke="#ffffff"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* Tooltip for hovered point */}
+      {hovered && hoveredPoint && (
+        <div
+          className="absolute bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm shadow-xl pointer-events-none whitespace-nowrap"
+          style={{ left: hoveredPoint.left + 12, top: hoveredPoint.top + 12 }}
+        >
+          {isMultiSeries && (
+            <div className="text-xs font-semibold" style={{ color: hovered.color }}>{hovered.symbol}</div>
+          )}
+          <div className="font-bold text-orange-400">{formatPrice(hovered.prices[hoveredPoint.index], priceUnit)}</div>
+          {realPriceLabel && (
+            <div className="text-gray-500 text-xs">{realPriceLabel}</div>
+          )}
+          <div className="text-gray-400 text-xs">
+            {hovered.timestamps[hoveredPoint.index].toLocaleString('en-US', {
+              year: 'numeric',
+              month: 'short',
+              day: 'numeric',
+              // Intraday bars need the time of day as well
+              ...(isIntradayInterval(config.interval) && { hour: 'numeric', minute: '2-digit' }),
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,14 +6,18 @@ import { Text, Line } from '@react-three/drei';
 import { PricePoint, SpiralConfig } from '@/types';
 import {
   calculateScaling,
-  generatePriceLevelRings,
-  formatPrice,
+  calculatePriceLevelRings,
+  formatPriceLevel,
+  isCycleRelativeScale,
+  SpiralScaling,
 } from '@/lib/spiral/geometry';
+import { usePriceUnit, useRealPriceLabel } from '@/hooks/useSpiralData';
 
 interface PriceLevelRingsProps {
   priceData: PricePoint[];
   config: SpiralConfig;
   height?: number;
+  scaling?: SpiralScaling; // Scale shared with the spirals; computed from priceData if omitted
 }
 
 function CircleLine({ radius, color = '#666666' }: { radius: number; color?: string }) {
@@ -42,17 +46,16 @@ export function PriceLevelRings({
   priceData,
   config,
   height = 0,
+  scaling: sharedScaling,
 }: PriceLevelRingsProps) {
+  const priceUnit = usePriceUnit();
+  const realPriceLabel = useRealPriceLabel();
   const rings = useMemo(() => {
     if (priceData.length === 0) return [];
 
-    const prices = priceData.map((p) => p.price);
-    const minPrice = Math.min(...prices);
-    const maxPrice = Math.max(...prices);
-
-    const { radiusScale } = calculateScaling(priceData, config, 10, 5);
-    return generatePriceLevelRings(minPrice, maxPrice, config, radiusScale);
-  }, [priceData, config]);
+    const scaling = sharedScaling ?? calculateScaling(priceData, config, 10, 5);
+    return calculatePriceLevelRings(priceData, config, scaling);
+  }, [priceData, config, sharedScaling]);
 
   if (rings.length === 0) return null;
 
@@ -82,10 +85,23 @@ export function PriceLevelRings({
             anchorX="left"
             anchorY="middle"
           >
-            {formatPrice(ring.price)}
+            {formatPriceLevel(ring.price, config.priceScale, priceUnit)}
           </Text>
         </group>
       ))}
+
+      {/* Real prices are captioned with their price level */}
+      {realPriceLabel && !isCycleRelativeScale(config.priceScale) && (
+        <Text
+          position={[rings[rings.length - 1].radius + 0.3, 0.5, 0]}
+          fontSize={0.2}
+          color="#666666"
+          anchorX="left"
+          anchorY="middle"
+        >
+          {realPriceLabel}
+        </Text>
+      )}
     </group>
   );
 }
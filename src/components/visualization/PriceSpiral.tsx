@@ -1,23 +1,54 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
 import { Line, Html } from '@react-three/drei';
-import { PricePoint, SpiralConfig } from '@/types';
+import type { Line2, LineSegments2 } from 'three-stdlib';
+import { PricePoint, SpiralConfig, SpiralPoint } from '@/types';
 import {
   priceSeriesToSpiral,
   calculateScaling,
-  getCycleDays,
+  getCyclePositions,
+  calculateSessionIndices,
   getColorForPoint,
   preCalculateColorData,
   formatPrice,
   getMarkerIndices,
+  SeriesLayout,
+  SpiralScaling,
+  volumeWidthFactor,
 } from '@/lib/spiral/geometry';
+import { buildRibbonGeometry, RibbonSection } from '@/lib/spiral/ribbon';
+import { calculateIndicatorLines, findMovingAverageCrossovers } from '@/lib/indicators';
+import { isIntradayInterval } from '@/lib/data/intervals';
+import { usePriceUnit, useRealPriceLabel } from '@/hooks/useSpiralData';
+import { QUALITY_ISSUE_LABELS } from '@/lib/data/quality';
+
+// Bars the data-quality stage kept but marked as suspect
+const FLAGGED_COLOR = '#facc15';
+
+// How long the tip takes to grow into a newly arrived bar or price
+const TIP_ANIMATION_MS = 600;
+
+// Candle body colors on the ribbon style: close above / below the open
+const BODY_UP_COLOR = new THREE.Color('#22c55e');
+const BODY_DOWN_COLOR = new THREE.Color('#ef4444');
+
+// Height of the open-close bodies on the ribbon style
+const BODY_THICKNESS = 0.08;
+
+// Crossover marker colors: fast average crossing above / below the slow one
+const GOLDEN_CROSS_COLOR = '#fbbf24';
+const DEATH_CROSS_COLOR = '#b91c1c';
 
 interface PriceSpiralProps {
   priceData: PricePoint[];
   config: SpiralConfig;
   lineWidth?: number;
+  layout?: SeriesLayout; // Shared layout when drawn alongside other series
+  seriesColor?: string; // Tint blended into the color mode to tell series apart
+  label?: string; // Series name shown in tooltips
 }
 
 interface HoveredPoint {
@@ -25,30 +56,38 @@ interface HoveredPoint {
   price: number;
   date: Date;
   index: number;
+  label?: string; // Extra line, e.g. the dividend or split at this point
 }
 
 export function PriceSpiral({
   priceData,
   config,
   lineWidth = 2,
+  layout,
+  seriesColor,
+  label,
 }: PriceSpiralProps) {
   const [hoveredPoint, setHoveredPoint] = useState<HoveredPoint | null>(null);
+  const priceUnit = usePriceUnit();
+  const realPriceLabel = useRealPriceLabel();
 
   // Calculate spiral points from price data
   const { spiralPoints, scaling } = useMemo(() => {
     if (priceData.length === 0) {
-      return { spiralPoints: [], scaling: { verticalScale: 0.01, radiusScale: 1 } };
+      return { spiralPoints: [], scaling: calculateScaling([], config) };
     }
 
-    const scaling = calculateScaling(priceData, config, 10, 5);
+    const scaling = layout ?? calculateScaling(priceData, config, 10, 5);
     const points = priceSeriesToSpiral(priceData, config, {
       verticalScale: scaling.verticalScale,
       radiusScale: scaling.radiusScale,
+      priceOrigin: scaling.priceOrigin,
       minRadius: 0.3,
+      baseDate: layout?.baseDate,
     });
 
     return { spiralPoints: points, scaling };
-  }, [priceData, config]);
+  }, [priceData, config, layout]);
 
   // For cycle overlay mode, group points by cycle
   const { adjustedSpiralPoints, cycleGroups } = useMemo(() => {
@@ -60,19 +99,16 @@ export function PriceSpiral({
       return { adjustedSpiralPoints: spiralPoints, cycleGroups: [] };
     }
 
-    const cycleDays = getCycleDays(config.cycleDuration, config.customDays);
-    const msPerDay = 1000 * 60 * 60 * 24;
-    const baseDate = priceData[0].timestamp;
+    const baseDate = layout?.baseDate ?? priceData[0].timestamp;
     const cycleHeight = 2; // Fixed height per cycle in overlay mode
 
     // Group points by cycle number
     const groups: { cycleNum: number; points: typeof spiralPoints; indices: number[] }[] = [];
     let currentCycle = -1;
 
+    const positions = getCyclePositions(priceData, config, baseDate);
     const adjusted = spiralPoints.map((point, i) => {
-      const daysElapsed = (priceData[i].timestamp.getTime() - baseDate.getTime()) / msPerDay;
-      const cycleProgress = (daysElapsed % cycleDays) / cycleDays;
-      const cycleNumber = Math.floor(daysElapsed / cycleDays);
+      const { cycle: cycleNumber, progress: cycleProgress } = positions[i];
 
       // Track cycle groups
       if (cycleNumber !== currentCycle) {
@@ -92,7 +128,7 @@ export function PriceSpiral({
     });
 
     return { adjustedSpiralPoints: adjusted, cycleGroups: groups };
-  }, [spiralPoints, config, priceData]);
+  }, [spiralPoints, config, priceData, layout]);
 
   // Create line points - either single array or grouped by cycle
   const linePointGroups = useMemo(() => {
@@ -119,10 +155,13 @@ export function PriceSpiral({
   const vertexColors = useMemo(() => {
     if (priceData.length === 0 || !colorData) return [];
 
-    return priceData.map((_, index) =>
-      getColorForPoint(index, priceData, config.colorMode, config, colorData)
-    );
-  }, [priceData, config, colorData]);
+    const tint = seriesColor ? new THREE.Color(seriesColor) : null;
+    return priceData.map((point, index) => {
+      if (point.qualityFlag) return new THREE.Color(FLAGGED_COLOR);
+      const color = getColorForPoint(index, priceData, config.colorMode, config, colorData);
+      return tint ? color.lerp(tint, 0.5) : color;
+    });
+  }, [priceData, config, colorData, seriesColor]);
 
   // Group vertex colors by cycle for overlay mode
   const vertexColorGroups = useMemo(() => {
@@ -132,21 +171,104 @@ export function PriceSpiral({
     return cycleGroups.map(group => group.indices.map(i => vertexColors[i]));
   }, [vertexColors, config.cycleOverlay, cycleGroups]);
 
+  // Bar indices of each unbroken stretch of line, matching linePointGroups
+  const lineRuns = useMemo(
+    () => (cycleGroups.length > 0 ? cycleGroups.map((group) => group.indices) : [priceData.map((_, i) => i)]),
+    [cycleGroups, priceData]
+  );
+
+  // Width multiplier per point when line width follows volume
+  const widthGroups = useMemo(() => {
+    if (!config.volumeWidth || !colorData) return null;
+    return lineRuns.map((run) => run.map((i) => volumeWidthFactor(colorData.relativeVolumes[i])));
+  }, [config.volumeWidth, colorData, lineRuns]);
+
   if (adjustedSpiralPoints.length === 0) {
     return null;
   }
 
+  // The last segment and end marker are drawn by SpiralTip so they can animate
+  const lastIndex = adjustedSpiralPoints.length - 1;
+  const lastGroup = linePointGroups.length - 1;
+  const hasTipSegment = linePointGroups[lastGroup].length >= 2;
+  const toPosition = (point: { x: number; y: number; z: number }): [number, number, number] => [point.x, point.y, point.z];
+
   return (
     <group>
       {/* Main spiral line(s) - separate lines per cycle in overlay mode */}
-      {linePointGroups.map((points, groupIndex) => (
-        <Line
-          key={groupIndex}
-          points={points}
-          vertexColors={vertexColorGroups[groupIndex] || []}
-          lineWidth={lineWidth}
+      {linePointGroups.map((points, groupIndex) => {
+        const isLast = groupIndex === lastGroup;
+        const groupPoints = isLast ? points.slice(0, -1) : points;
+        if (groupPoints.length < 2) return null;
+
+        const colors = vertexColorGroups[groupIndex] || [];
+        if (widthGroups) {
+          return (
+            <VolumeWeightedLine
+              key={groupIndex}
+              points={groupPoints}
+              colors={isLast ? colors.slice(0, -1) : colors}
+              widths={widthGroups[groupIndex]}
+              lineWidth={lineWidth}
+            />
+          );
+        }
+        return (
+          <Line
+            key={groupIndex}
+            points={groupPoints}
+            vertexColors={isLast ? colors.slice(0, -1) : colors}
+            lineWidth={lineWidth}
+          />
+        );
+      })}
+
+      {/* Low-high range of every bar, with optional open-close bodies */}
+      {config.spiralStyle === 'ribbon' && (
+        <SpiralRibbon
+          priceData={priceData}
+          config={config}
+          scaling={scaling}
+          baseDate={layout?.baseDate}
+          adjustedSpiralPoints={adjustedSpiralPoints}
+          runs={lineRuns}
+          vertexColors={vertexColors}
         />
-      ))}
+      )}
+
+      {/* Moving averages and bands */}
+      {config.indicators.some((indicator) => indicator.visible) && (
+        <IndicatorSpirals
+          priceData={priceData}
+          config={config}
+          scaling={scaling}
+          baseDate={layout?.baseDate}
+          adjustedSpiralPoints={adjustedSpiralPoints}
+          runs={lineRuns}
+        />
+      )}
+
+      {/* Golden and death crosses */}
+      {config.showCrossovers && (
+        <CrossoverMarkers
+          priceData={priceData}
+          config={config}
+          adjustedSpiralPoints={adjustedSpiralPoints}
+          hoveredPoint={hoveredPoint}
+          setHoveredPoint={setHoveredPoint}
+        />
+      )}
+
+      {/* Newest segment and current price marker */}
+      <SpiralTip
+        from={hasTipSegment ? toPosition(adjustedSpiralPoints[lastIndex - 1]) : null}
+        to={toPosition(adjustedSpiralPoints[lastIndex])}
+        fromTimestamp={hasTipSegment ? priceData[lastIndex - 1].timestamp.getTime() : null}
+        toTimestamp={priceData[lastIndex].timestamp.getTime()}
+        fromColor={vertexColors[lastIndex - 1]}
+        toColor={vertexColors[lastIndex]}
+        lineWidth={lineWidth}
+      />
 
       {/* Interactive point markers at meaningful time boundaries */}
       <TimeMarkers
@@ -158,16 +280,45 @@ export function PriceSpiral({
         setHoveredPoint={setHoveredPoint}
       />
 
+      {/* Dividend and split markers */}
+      {config.showCorporateEvents && (
+        <CorporateEventMarkers
+          priceData={priceData}
+          adjustedSpiralPoints={adjustedSpiralPoints}
+          hoveredPoint={hoveredPoint}
+          setHoveredPoint={setHoveredPoint}
+        />
+      )}
+
+      {/* Bars flagged by the data-quality stage */}
+      <QualityFlagMarkers
+        priceData={priceData}
+        adjustedSpiralPoints={adjustedSpiralPoints}
+        hoveredPoint={hoveredPoint}
+        setHoveredPoint={setHoveredPoint}
+      />
+
       {/* Tooltip for hovered point */}
       {hoveredPoint && (
         <Html position={hoveredPoint.position} center>
           <div className="bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-white text-sm shadow-xl pointer-events-none whitespace-nowrap">
-            <div className="font-bold text-orange-400">{formatPrice(hoveredPoint.price)}</div>
+            {label && (
+              <div className="text-xs font-semibold" style={{ color: seriesColor }}>{label}</div>
+            )}
+            <div className="font-bold text-orange-400">{formatPrice(hoveredPoint.price, priceUnit)}</div>
+            {realPriceLabel && (
+              <div className="text-gray-500 text-xs">{realPriceLabel}</div>
+            )}
+            {hoveredPoint.label && (
+              <div className="text-cyan-300 text-xs">{hoveredPoint.label}</div>
+            )}
             <div className="text-gray-400 text-xs">
-              {hoveredPoint.date.toLocaleDateString('en-US', {
+              {hoveredPoint.date.toLocaleString('en-US', {
                 year: 'numeric',
                 month: 'short',
                 day: 'numeric',
+                // Intraday bars need the time of day as well
+                ...(isIntradayInterval(config.interval) && { hour: 'numeric', minute: '2-digit' }),
               })}
             </div>
           </div>
@@ -180,23 +331,363 @@ export function PriceSpiral({
         <meshStandardMaterial color="#00ff00" emissive="#00aa00" emissiveIntensity={0.5} />
       </mesh>
 
-      {/* End point (current price marker) */}
-      <mesh
-        position={[
-          adjustedSpiralPoints[adjustedSpiralPoints.length - 1].x,
-          adjustedSpiralPoints[adjustedSpiralPoints.length - 1].y,
-          adjustedSpiralPoints[adjustedSpiralPoints.length - 1].z,
-        ]}
-      >
+      {/* Cycle markers in overlay mode */}
+      {config.cycleOverlay && priceData.length > 0 && (
+        <CycleMarkers priceData={priceData} config={config} baseDate={layout?.baseDate} />
+      )}
+    </group>
+  );
+}
+
+/**
+ * Last segment of the spiral plus the current price marker.
+ *
+ * When a live bar arrives the tip grows from the previous end point to the
+ * new one; a new last price on the same bar slides the tip there. Any other
+ * change (new asset, new config) snaps into place.
+ */
+function SpiralTip({
+  from,
+  to,
+  fromTimestamp,
+  toTimestamp,
+  fromColor,
+  toColor,
+  lineWidth,
+}: {
+  from: [number, number, number] | null;
+  to: [number, number, number];
+  fromTimestamp: number | null;
+  toTimestamp: number;
+  fromColor?: THREE.Color;
+  toColor?: THREE.Color;
+  lineWidth: number;
+}) {
+  const lineRef = useRef<Line2 | LineSegments2>(null);
+  const markerRef = useRef<THREE.Mesh>(null);
+  const previousTimestamp = useRef<number | null>(null);
+  const displayed = useRef(new THREE.Vector3(...to));
+  const animation = useRef<{ start: THREE.Vector3; target: THREE.Vector3; startTime: number } | null>(null);
+
+  const [toX, toY, toZ] = to;
+  const [fromX, fromY, fromZ] = from ?? to;
+
+  // Before paint, so the new tip never flashes at its final position
+  useLayoutEffect(() => {
+    const previous = previousTimestamp.current;
+    previousTimestamp.current = toTimestamp;
+    const target = new THREE.Vector3(toX, toY, toZ);
+
+    if (previous !== null && previous === fromTimestamp) {
+      animation.current = { start: new THREE.Vector3(fromX, fromY, fromZ), target, startTime: performance.now() };
+    } else if (previous === toTimestamp && !displayed.current.equals(target)) {
+      animation.current = { start: displayed.current.clone(), target, startTime: performance.now() };
+    } else {
+      animation.current = null;
+      displayed.current.copy(target);
+    }
+  }, [toX, toY, toZ, fromX, fromY, fromZ, fromTimestamp, toTimestamp]);
+
+  useFrame(() => {
+    const current = animation.current;
+    if (!current) return;
+
+    const t = Math.min(1, (performance.now() - current.startTime) / TIP_ANIMATION_MS);
+    const eased = 1 - (1 - t) ** 3;
+    displayed.current.lerpVectors(current.start, current.target, eased);
+    if (t === 1) animation.current = null;
+
+    const tip = displayed.current;
+    markerRef.current?.position.copy(tip);
+    lineRef.current?.geometry.setPositions([fromX, fromY, fromZ, tip.x, tip.y, tip.z]);
+  });
+
+  return (
+    <>
+      {from && (
+        <Line
+          ref={lineRef}
+          points={[from, to]}
+          vertexColors={[fromColor ?? new THREE.Color('#ff6600'), toColor ?? new THREE.Color('#ff6600')]}
+          lineWidth={lineWidth}
+        />
+      )}
+      <mesh ref={markerRef} position={to}>
         <sphereGeometry args={[0.2, 16, 16]} />
         <meshStandardMaterial color="#ffffff" emissive="#ffffff" emissiveIntensity={0.8} />
       </mesh>
+    </>
+  );
+}
 
-      {/* Cycle markers in overlay mode */}
-      {config.cycleOverlay && priceData.length > 0 && (
-        <CycleMarkers priceData={priceData} config={config} />
+/**
+ * Line whose segments are as wide as their bar's relative volume. Line2 has a
+ * single width, so segments are batched into one line per rounded width.
+ */
+function VolumeWeightedLine({
+  points,
+  colors,
+  widths,
+  lineWidth,
+}: {
+  points: [number, number, number][];
+  colors: THREE.Color[];
+  widths: number[]; // Multiplier per point; a segment takes its end point's
+  lineWidth: number;
+}) {
+  const batches = useMemo(() => {
+    const byWidth = new Map<number, { points: [number, number, number][]; colors: THREE.Color[] }>();
+    for (let i = 1; i < points.length; i++) {
+      const width = Math.round(widths[i] * 4) / 4;
+      const batch = byWidth.get(width) ?? { points: [], colors: [] };
+      batch.points.push(points[i - 1], points[i]);
+      batch.colors.push(colors[i - 1], colors[i]);
+      byWidth.set(width, batch);
+    }
+    return [...byWidth.entries()];
+  }, [points, colors, widths]);
+
+  return (
+    <>
+      {batches.map(([width, batch]) => (
+        <Line
+          key={width}
+          points={batch.points}
+          vertexColors={batch.colors}
+          lineWidth={lineWidth * width}
+          segments
+        />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Indicator lines as thin spirals on the same mapping as the price line:
+ * radius from the indicator value, height from the (possibly overlaid) line.
+ * Lines start once the indicator has a full window.
+ */
+function IndicatorSpirals({
+  priceData,
+  config,
+  scaling,
+  baseDate,
+  adjustedSpiralPoints,
+  runs,
+}: {
+  priceData: PricePoint[];
+  config: SpiralConfig;
+  scaling: SpiralScaling;
+  baseDate?: Date;
+  adjustedSpiralPoints: SpiralPoint[];
+  runs: number[][];
+}) {
+  const lines = useMemo(() => {
+    const options = {
+      verticalScale: scaling.verticalScale,
+      radiusScale: scaling.radiusScale,
+      priceOrigin: scaling.priceOrigin,
+      minRadius: 0.3,
+      baseDate,
+    };
+
+    return config.indicators
+      .filter((indicator) => indicator.visible)
+      .flatMap((indicator) =>
+        calculateIndicatorLines(priceData, indicator).flatMap((line) => {
+          const points = priceSeriesToSpiral(priceData, config, { ...options, values: line.values });
+
+          // Split each run wherever the indicator has no value yet
+          const pieces: [number, number, number][][] = [];
+          for (const run of runs) {
+            let piece: [number, number, number][] = [];
+            for (const i of run) {
+              if (isNaN(line.values[i])) {
+                if (piece.length >= 2) pieces.push(piece);
+                piece = [];
+                continue;
+              }
+              piece.push([points[i].x, adjustedSpiralPoints[i].y, points[i].z]);
+            }
+            if (piece.length >= 2) pieces.push(piece);
+          }
+
+          return pieces.map((piece, p) => ({
+            key: `${line.key}-${p}`,
+            points: piece,
+            color: indicator.color,
+            isBand: line.isBand,
+          }));
+        })
+      );
+  }, [priceData, config, scaling, baseDate, adjustedSpiralPoints, runs]);
+
+  return (
+    <>
+      {lines.map((line) => (
+        <Line
+          key={line.key}
+          points={line.points}
+          color={line.color}
+          lineWidth={1}
+          dashed={line.isBand}
+          dashSize={0.15}
+          gapSize={0.08}
+          transparent
+          opacity={line.isBand ? 0.6 : 0.9}
+        />
+      ))}
+    </>
+  );
+}
+
+// Component for golden (gold) and death (dark red) cross markers
+function CrossoverMarkers({
+  priceData,
+  config,
+  adjustedSpiralPoints,
+  hoveredPoint,
+  setHoveredPoint,
+}: {
+  priceData: PricePoint[];
+  config: SpiralConfig;
+  adjustedSpiralPoints: SpiralPoint[];
+  hoveredPoint: HoveredPoint | null;
+  setHoveredPoint: (point: HoveredPoint | null) => void;
+}) {
+  const markers = useMemo(() => {
+    const result = findMovingAverageCrossovers(priceData, config.indicators);
+    if (!result) return [];
+    return result.crossovers.map((crossover) => ({
+      ...crossover,
+      label: `${crossover.type === 'golden' ? 'Golden' : 'Death'} cross (${result.label})`,
+    }));
+  }, [priceData, config.indicators]);
+
+  return (
+    <>
+      {markers.map((marker) => {
+        const point = adjustedSpiralPoints[marker.index];
+        if (!point) return null;
+
+        const position: [number, number, number] = [point.x, point.y, point.z];
+        const isHovered = hoveredPoint?.index === marker.index && hoveredPoint.label === marker.label;
+
+        return (
+          <mesh
+            key={marker.index}
+            position={position}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              document.body.style.cursor = 'pointer';
+              setHoveredPoint({
+                position,
+                price: priceData[marker.index].price,
+                date: priceData[marker.index].timestamp,
+                index: marker.index,
+                label: marker.label,
+              });
+            }}
+            onPointerOut={() => {
+              document.body.style.cursor = 'auto';
+              setHoveredPoint(null);
+            }}
+          >
+            <torusGeometry args={[isHovered ? 0.16 : 0.11, 0.025, 8, 24]} />
+            <meshBasicMaterial color={marker.type === 'golden' ? GOLDEN_CROSS_COLOR : DEATH_CROSS_COLOR} />
+          </mesh>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Ribbon mesh spanning each bar's low to high, in the spiral's colors, plus
+ * open-close bodies when enabled. Follows the line's heights, so it stacks
+ * the same way in overlay mode.
+ */
+function SpiralRibbon({
+  priceData,
+  config,
+  scaling,
+  baseDate,
+  adjustedSpiralPoints,
+  runs,
+  vertexColors,
+}: {
+  priceData: PricePoint[];
+  config: SpiralConfig;
+  scaling: SpiralScaling;
+  baseDate?: Date;
+  adjustedSpiralPoints: SpiralPoint[];
+  runs: number[][];
+  vertexColors: THREE.Color[];
+}) {
+  const { range, bodies } = useMemo(() => {
+    const options = {
+      verticalScale: scaling.verticalScale,
+      radiusScale: scaling.radiusScale,
+      priceOrigin: scaling.priceOrigin,
+      minRadius: 0.3,
+      baseDate,
+    };
+    // Radius from one bar price, height from the (possibly overlaid) line
+    const at = (points: SpiralPoint[], i: number): [number, number, number] => [
+      points[i].x,
+      adjustedSpiralPoints[i].y,
+      points[i].z,
+    ];
+
+    const lows = priceSeriesToSpiral(priceData, config, { ...options, field: 'low' });
+    const highs = priceSeriesToSpiral(priceData, config, { ...options, field: 'high' });
+    const rangeRuns = runs.map((run) =>
+      run.map((i): RibbonSection => ({ inner: at(lows, i), outer: at(highs, i), color: vertexColors[i] }))
+    );
+
+    let bodyRuns: RibbonSection[][] | null = null;
+    if (config.showCandleBodies) {
+      const opens = priceSeriesToSpiral(priceData, config, { ...options, field: 'open' });
+      const closes = priceSeriesToSpiral(priceData, config, options);
+      bodyRuns = runs.map((run) =>
+        run.map((i): RibbonSection => ({
+          inner: at(opens, i),
+          outer: at(closes, i),
+          color: priceData[i].price >= (priceData[i].open ?? priceData[i].price) ? BODY_UP_COLOR : BODY_DOWN_COLOR,
+        }))
+      );
+    }
+
+    return {
+      range: buildRibbonGeometry(rangeRuns),
+      bodies: bodyRuns ? buildRibbonGeometry(bodyRuns, BODY_THICKNESS) : null,
+    };
+  }, [priceData, config, scaling, baseDate, adjustedSpiralPoints, runs, vertexColors]);
+
+  // Geometries are built by hand, so free the old ones when they are replaced
+  useEffect(() => () => {
+    range.dispose();
+    bodies?.dispose();
+  }, [range, bodies]);
+
+  return (
+    <>
+      <mesh geometry={range}>
+        <meshStandardMaterial
+          vertexColors
+          side={THREE.DoubleSide}
+          transparent
+          opacity={0.75}
+          depthWrite={false}
+          roughness={0.6}
+        />
+      </mesh>
+      {bodies && (
+        <mesh geometry={bodies}>
+          <meshStandardMaterial vertexColors roughness={0.5} />
+        </mesh>
       )}
-    </group>
+    </>
   );
 }
 
@@ -217,8 +708,9 @@ function TimeMarkers({
   setHoveredPoint: (point: HoveredPoint | null) => void;
 }) {
   const markerIndices = useMemo(() => {
-    return getMarkerIndices(priceData, config.cycleDuration, config.customDays);
-  }, [priceData, config.cycleDuration, config.customDays]);
+    const sessions = config.timeBasis === 'sessions' ? calculateSessionIndices(priceData) : undefined;
+    return getMarkerIndices(priceData, config.cycleDuration, config.customDays, config.interval, sessions);
+  }, [priceData, config.cycleDuration, config.customDays, config.interval, config.timeBasis]);
 
   return (
     <>
@@ -257,19 +749,155 @@ function TimeMarkers({
   );
 }
 
+function formatSplitRatio(ratio: number): string {
+  // Reverse splits read as 1:N
+  return ratio >= 1 ? `${+ratio.toFixed(3)}:1` : `1:${+(1 / ratio).toFixed(3)}`;
+}
+
+// Component for dividend (cyan) and split (magenta) markers
+function CorporateEventMarkers({
+  priceData,
+  adjustedSpiralPoints,
+  hoveredPoint,
+  setHoveredPoint,
+}: {
+  priceData: PricePoint[];
+  adjustedSpiralPoints: { x: number; y: number; z: number; price: number; timestamp: Date }[];
+  hoveredPoint: HoveredPoint | null;
+  setHoveredPoint: (point: HoveredPoint | null) => void;
+}) {
+  const priceUnit = usePriceUnit();
+  const events = useMemo(() => {
+    const result: { index: number; label: string; isSplit: boolean }[] = [];
+    priceData.forEach((point, index) => {
+      if (point.split !== undefined && point.split !== 1) {
+        result.push({ index, label: `Split ${formatSplitRatio(point.split)}`, isSplit: true });
+      }
+      if (point.dividend) {
+        result.push({ index, label: `Dividend ${formatPrice(point.dividend, priceUnit)}`, isSplit: false });
+      }
+    });
+    return result;
+  }, [priceData, priceUnit]);
+
+  return (
+    <>
+      {events.map((event) => {
+        const point = adjustedSpiralPoints[event.index];
+        if (!point) return null;
+
+        // Lift markers slightly off the line so they don't hide time markers
+        const position: [number, number, number] = [point.x, point.y + 0.12, point.z];
+        const isHovered = hoveredPoint?.index === event.index && hoveredPoint.label === event.label;
+
+        return (
+          <mesh
+            key={`${event.index}-${event.label}`}
+            position={position}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              document.body.style.cursor = 'pointer';
+              setHoveredPoint({
+                position,
+                price: priceData[event.index].price,
+                date: priceData[event.index].timestamp,
+                index: event.index,
+                label: event.label,
+              });
+            }}
+            onPointerOut={() => {
+              document.body.style.cursor = 'auto';
+              setHoveredPoint(null);
+            }}
+          >
+            <octahedronGeometry args={[isHovered ? 0.14 : (event.isSplit ? 0.1 : 0.07), 0]} />
+            <meshBasicMaterial color={event.isSplit ? '#ff44ff' : '#22d3ee'} />
+          </mesh>
+        );
+      })}
+    </>
+  );
+}
+
+// Component for bars flagged as suspect (yellow cubes)
+function QualityFlagMarkers({
+  priceData,
+  adjustedSpiralPoints,
+  hoveredPoint,
+  setHoveredPoint,
+}: {
+  priceData: PricePoint[];
+  adjustedSpiralPoints: { x: number; y: number; z: number; price: number; timestamp: Date }[];
+  hoveredPoint: HoveredPoint | null;
+  setHoveredPoint: (point: HoveredPoint | null) => void;
+}) {
+  const flagged = useMemo(() => {
+    const result: { index: number; label: string }[] = [];
+    priceData.forEach((point, index) => {
+      if (point.qualityFlag) {
+        result.push({ index, label: QUALITY_ISSUE_LABELS[point.qualityFlag] });
+      }
+    });
+    return result;
+  }, [priceData]);
+
+  return (
+    <>
+      {flagged.map((flag) => {
+        const point = adjustedSpiralPoints[flag.index];
+        if (!point) return null;
+
+        const position: [number, number, number] = [point.x, point.y, point.z];
+        const isHovered = hoveredPoint?.index === flag.index && hoveredPoint.label === flag.label;
+
+        return (
+          <mesh
+            key={flag.index}
+            position={position}
+            onPointerOver={(e) => {
+              e.stopPropagation();
+              document.body.style.cursor = 'pointer';
+              setHoveredPoint({
+                position,
+                price: priceData[flag.index].price,
+                date: priceData[flag.index].timestamp,
+                index: flag.index,
+                label: flag.label,
+              });
+            }}
+            onPointerOut={() => {
+              document.body.style.cursor = 'auto';
+              setHoveredPoint(null);
+            }}
+          >
+            <boxGeometry args={isHovered ? [0.16, 0.16, 0.16] : [0.09, 0.09, 0.09]} />
+            <meshBasicMaterial color={FLAGGED_COLOR} wireframe={!isHovered} />
+          </mesh>
+        );
+      })}
+    </>
+  );
+}
+
 // Component to show cycle start markers in overlay mode
-function CycleMarkers({ priceData, config }: { priceData: PricePoint[]; config: SpiralConfig }) {
+function CycleMarkers({
+  priceData,
+  config,
+  baseDate: sharedBaseDate,
+}: {
+  priceData: PricePoint[];
+  config: SpiralConfig;
+  baseDate?: Date;
+}) {
   const markers = useMemo(() => {
-    const cycleDays = getCycleDays(config.cycleDuration, config.customDays);
-    const msPerDay = 1000 * 60 * 60 * 24;
-    const baseDate = priceData[0].timestamp;
+    const baseDate = sharedBaseDate ?? priceData[0].timestamp;
 
     const cycleStarts: { cycleNum: number; date: Date }[] = [];
     let lastCycle = -1;
 
-    priceData.forEach((point) => {
-      const daysElapsed = (point.timestamp.getTime() - baseDate.getTime()) / msPerDay;
-      const cycleNum = Math.floor(daysElapsed / cycleDays);
+    const positions = getCyclePositions(priceData, config, baseDate);
+    priceData.forEach((point, i) => {
+      const cycleNum = positions[i].cycle;
 
       if (cycleNum !== lastCycle) {
         cycleStarts.push({ cycleNum, date: point.timestamp });
@@ -278,7 +906,7 @@ function CycleMarkers({ priceData, config }: { priceData: PricePoint[]; config:
     });
 
     return cycleStarts;
-  }, [priceData, config]);
+  }, [priceData, config, sharedBaseDate]);
 
   return (
     <>
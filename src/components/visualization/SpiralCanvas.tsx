@@ -7,6 +7,7 @@ import { Scene } from './Scene';
 import { PriceSpiral } from './PriceSpiral';
 import { PriceLevelRings } from './PriceLevelRings';
 import { useAppStore } from '@/store/useAppStore';
+import { useSeriesLayouts, useSpiralSeries } from '@/hooks/useSpiralData';
 
 function LoadingFallback() {
   return (
@@ -58,7 +59,11 @@ function WebGLFallback({ message }: { message: string }) {
 }
 
 export function SpiralCanvas() {
-  const { priceData, config } = useAppStore();
+  const { config } = useAppStore();
+  const displaySeries = useSpiralSeries();
+  const isMultiSeries = displaySeries.length > 1;
+
+  const { layouts, rings } = useSeriesLayouts(displaySeries);
   const [webglStatus, setWebglStatus] = useState<{ supported: boolean; message: string } | null>(null);
   const [renderError, setRenderError] = useState<string | null>(null);
 
@@ -110,11 +115,19 @@ export function SpiralCanvas() {
         />
         <Suspense fallback={<LoadingFallback />}>
           <Scene />
-          {priceData.length > 0 && (
-            <>
-              <PriceSpiral priceData={priceData} config={config} />
-              <PriceLevelRings priceData={priceData} config={config} />
-            </>
+          {displaySeries.map(({ series, priceData }, i) => (
+            <PriceSpiral
+              key={series.asset.symbol}
+              priceData={priceData}
+              config={config}
+              layout={layouts[i]}
+              // A single spiral keeps the plain color mode
+              seriesColor={isMultiSeries ? series.color : undefined}
+              label={isMultiSeries ? series.asset.symbol : undefined}
+            />
+          ))}
+          {rings && (
+            <PriceLevelRings priceData={rings.priceData} config={config} scaling={rings.scaling} />
           )}
         </Suspense>
       </Canvas>
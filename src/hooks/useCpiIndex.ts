@@ -0,0 +1,26 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { BUNDLED_CPI_URL, CpiObservation, parseCpiCsv } from '@/lib/data/inflation';
+
+async function fetchBundledCpi(): Promise<CpiObservation[]> {
+  const response = await fetch(BUNDLED_CPI_URL);
+
+  if (!response.ok) {
+    throw new Error('Failed to load the bundled CPI index');
+  }
+
+  return parseCpiCsv(await response.text());
+}
+
+/**
+ * The CPI index shipped with the app, loaded only when needed
+ */
+export function useBundledCpi(enabled: boolean) {
+  return useQuery({
+    queryKey: ['bundledCpi'],
+    queryFn: fetchBundledCpi,
+    enabled,
+    staleTime: Infinity, // Static file
+  });
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { PricePoint } from '@/types';
+
+interface LiveBarMessage {
+  symbol: string;
+  timestamp: string;
+  price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  adjClose?: number;
+}
+
+// Reconnect delay doubles per failed attempt, up to the cap
+const BASE_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30 * 1000;
+
+function toLivePoint(message: LiveBarMessage): PricePoint {
+  return {
+    timestamp: new Date(message.timestamp),
+    price: message.price,
+    open: message.open,
+    high: message.high,
+    low: message.low,
+    volume: message.volume,
+    adjClose: message.adjClose,
+  };
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based), with jitter so many
+ * tabs don't reconnect in lockstep
+ */
+function retryDelay(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Stream live bars for the active series from /api/prices/stream while live
+ * mode is on, appending them to its price data without a refetch.
+ *
+ * Waits for the series' first data so the stream can resume from its last
+ * bar, and reconnects with exponential backoff when the connection drops.
+ */
+export function useLivePrices() {
+  const { live, asset, priceData, config, setLiveStatus, appendLiveBar } = useAppStore();
+
+  // Imported series have no upstream to stream from
+  const symbol = asset && asset.source !== 'import' ? asset.symbol : null;
+  const hasData = priceData.length > 0;
+  const { interval } = config;
+
+  useEffect(() => {
+    if (!live || !symbol || !hasData) {
+      setLiveStatus('off');
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+
+    const connect = () => {
+      // Resume from whatever the series holds now, including earlier live bars
+      const series = useAppStore.getState().seriesList.find((s) => s.asset.symbol === symbol);
+      const last = series?.priceData[series.priceData.length - 1];
+      const params = new URLSearchParams({ symbol, interval });
+      if (last) {
+        params.set('since', last.timestamp.toISOString());
+        params.set('last', String(last.price));
+      }
+
+      setLiveStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+      source = new EventSource(`/api/prices/stream?${params.toString()}`);
+
+      source.addEventListener('ready', () => {
+        attempt = 0;
+        setLiveStatus('live');
+      });
+
+      const onUpdate = (event: MessageEvent) => {
+        appendLiveBar(symbol, toLivePoint(JSON.parse(event.data)));
+        setLiveStatus('live');
+      };
+      source.addEventListener('bar', onUpdate);
+      source.addEventListener('tick', onUpdate);
+
+      // The upstream failed but the stream is still open; it may recover
+      source.addEventListener('sourceError', () => setLiveStatus('error'));
+
+      // Dropped or refused connection: retry ourselves so the delay can back off
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        setLiveStatus('reconnecting');
+        retryTimer = setTimeout(connect, retryDelay(attempt));
+        attempt++;
+      };
+    };
+
+    connect();
+
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [live, symbol, hasData, interval, setLiveStatus, appendLiveBar]);
+}
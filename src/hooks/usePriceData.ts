@@ -1,10 +1,12 @@
 'use client';
 
-import { useQuery } from '@tanstack/react-query';
-import { PricePoint } from '@/types';
+import { QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { PricePoint, PriceInterval, PriceErrorCode, PriceErrorDetails } from '@/types';
+import { isRetryableCode } from '@/lib/providers/errors';
 
 interface PriceDataResponse {
   symbol: string;
+  interval: PriceInterval;
   data: {
     timestamp: string;
     price: number;
@@ -12,16 +14,146 @@ interface PriceDataResponse {
     high?: number;
     low?: number;
     volume?: number;
+    adjClose?: number;
   }[];
   count: number;
+  events: {
+    dividends: { timestamp: string; amount: number }[];
+    splits: { timestamp: string; numerator: number; denominator: number }[];
+  };
+  range: {
+    startDate: string;
+    endDate: string;
+    clamped: boolean;
+  };
+  cache: {
+    status: 'hit' | 'partial' | 'miss' | 'bypass';
+    lastRefreshed: string | null;
+  };
+}
+
+interface PriceErrorResponse {
+  error?: string;
+  code?: PriceErrorCode;
+  details?: PriceErrorDetails;
+}
+
+/**
+ * A failed price request, with a message phrased for the user
+ */
+class PriceRequestError extends Error {
+  readonly code?: PriceErrorCode;
+
+  constructor(message: string, code?: PriceErrorCode) {
+    super(message);
+    this.name = 'PriceRequestError';
+    this.code = code;
+  }
+}
+
+const formatMonth = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Turn an API error into a message that says what to do about it
+ */
+function describePriceError(response: PriceErrorResponse, startDate?: Date): string {
+  const symbol = response.details?.symbol;
+  const noData = `No ${symbol ? `${symbol} ` : ''}data in this range`;
+
+  switch (response.code) {
+    case 'UNKNOWN_SYMBOL':
+      return `${symbol ?? 'Symbol'} wasn't found — check the ticker or search by name`;
+    case 'EMPTY_RANGE': {
+      const { availableFrom, availableTo } = response.details ?? {};
+      if (availableFrom && (!startDate || startDate.getTime() < new Date(availableFrom).getTime())) {
+        return `${noData} — try since ${new Date(availableFrom).getUTCFullYear()}`;
+      }
+      if (availableTo) {
+        return `${noData} — its data ends ${formatMonth(availableTo)}`;
+      }
+      return `${noData} — try a longer range or a different interval`;
+    }
+    case 'BAD_DATE':
+      return `${response.error ?? 'Invalid date'} — pick the dates again`;
+    case 'INVALID_RANGE':
+      return 'The start date is after the end date — swap them';
+    case 'UPSTREAM_TIMEOUT':
+      return 'The price provider timed out — try again in a moment';
+    case 'RATE_LIMITED':
+      return 'Too many requests to the price provider — wait a minute before retrying';
+    case 'UPSTREAM_ERROR':
+      return 'The price provider is unavailable right now — try again later';
+    default:
+      return response.error || 'Failed to fetch price data';
+  }
+}
+
+async function toRequestError(response: Response, startDate?: Date): Promise<PriceRequestError> {
+  const body: PriceErrorResponse = await response.json().catch(() => ({}));
+  return new PriceRequestError(describePriceError(body, startDate), body.code);
+}
+
+// Bad input and unknown symbols fail the same way every time; the server
+// already retried upstream failures, so the client tries once more at most
+function shouldRetry(failureCount: number, error: Error): boolean {
+  if (error instanceof PriceRequestError && error.code && !isRetryableCode(error.code)) return false;
+  return failureCount < 1;
+}
+
+/**
+ * Attach each dividend/split to the first bar on or after its date.
+ * An event earlier on the same UTC day as the preceding bar belongs to that bar.
+ */
+function attachEvents(points: PricePoint[], events: PriceDataResponse['events']): PricePoint[] {
+  if (points.length === 0) return points;
+
+  const dayOf = (date: Date) => date.toISOString().split('T')[0];
+  const findBar = (timestamp: string): PricePoint | undefined => {
+    const date = new Date(timestamp);
+    const index = points.findIndex((p) => p.timestamp.getTime() >= date.getTime());
+    if (index > 0 && dayOf(points[index - 1].timestamp) === dayOf(date)) {
+      return points[index - 1];
+    }
+    return index >= 0 ? points[index] : undefined;
+  };
+
+  for (const dividend of events?.dividends ?? []) {
+    const bar = findBar(dividend.timestamp);
+    if (bar) bar.dividend = (bar.dividend ?? 0) + dividend.amount;
+  }
+  for (const split of events?.splits ?? []) {
+    const bar = findBar(split.timestamp);
+    if (bar) bar.split = (bar.split ?? 1) * (split.numerator / split.denominator);
+  }
+
+  return points;
+}
+
+/**
+ * Transform an /api/prices payload to PricePoints with Date objects
+ */
+function toPricePoints(data: PriceDataResponse): PricePoint[] {
+  const points = data.data.map((item): PricePoint => ({
+    timestamp: new Date(item.timestamp),
+    price: item.price,
+    open: item.open,
+    high: item.high,
+    low: item.low,
+    volume: item.volume,
+    adjClose: item.adjClose,
+  }));
+
+  return attachEvents(points, data.events);
 }
 
 async function fetchPriceData(
   symbol: string,
   startDate?: Date,
-  endDate?: Date
+  endDate?: Date,
+  interval: PriceInterval = '1d'
 ): Promise<PricePoint[]> {
-  const params = new URLSearchParams({ symbol });
+  const params = new URLSearchParams({ symbol, interval });
 
   if (startDate) {
     params.set('startDate', startDate.toISOString());
@@ -33,33 +165,122 @@ async function fetchPriceData(
   const response = await fetch(`/api/prices?${params.toString()}`);
 
   if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || 'Failed to fetch price data');
+    throw await toRequestError(response, startDate);
   }
 
   const data: PriceDataResponse = await response.json();
+  return toPricePoints(data);
+}
 
-  // Transform to PricePoint format with Date objects
-  return data.data.map((item) => ({
-    timestamp: new Date(item.timestamp),
-    price: item.price,
-    open: item.open,
-    high: item.high,
-    low: item.low,
-    volume: item.volume,
-  }));
+const PRICE_DATA_STALE_TIME = 5 * 60 * 1000; // 5 minutes
+
+function priceDataKey(
+  symbol: string | null,
+  startDate?: Date,
+  endDate?: Date,
+  interval: PriceInterval = '1d'
+) {
+  return ['priceData', symbol, startDate?.toISOString(), endDate?.toISOString(), interval];
 }
 
 export function usePriceData(
   symbol: string | null,
   startDate?: Date,
-  endDate?: Date
+  endDate?: Date,
+  interval: PriceInterval = '1d'
 ) {
   return useQuery({
-    queryKey: ['priceData', symbol, startDate?.toISOString(), endDate?.toISOString()],
-    queryFn: () => fetchPriceData(symbol!, startDate, endDate),
+    queryKey: priceDataKey(symbol, startDate, endDate, interval),
+    queryFn: () => fetchPriceData(symbol!, startDate, endDate, interval),
     enabled: !!symbol,
-    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: shouldRetry,
+    staleTime: PRICE_DATA_STALE_TIME,
+    gcTime: 30 * 60 * 1000, // 30 minutes
+  });
+}
+
+type BatchResultResponse = PriceDataResponse | (PriceErrorResponse & { symbol: string; error: string });
+
+interface PriceDataBatchResponse {
+  interval: PriceInterval;
+  results: BatchResultResponse[];
+}
+
+// Per-symbol outcome of a batch: data, or the reason that symbol failed
+export type PriceDataBatchEntry = { data: PricePoint[]; error?: undefined } | { data?: undefined; error: string };
+
+async function fetchPriceDataBatch(
+  queryClient: QueryClient,
+  symbols: string[],
+  startDate?: Date,
+  endDate?: Date,
+  interval: PriceInterval = '1d'
+): Promise<Record<string, PriceDataBatchEntry>> {
+  const entries: Record<string, PriceDataBatchEntry> = {};
+
+  // Symbols with fresh data in their own cache entry are not requested again
+  const missing = symbols.filter((symbol) => {
+    const key = priceDataKey(symbol, startDate, endDate, interval);
+    const state = queryClient.getQueryState<PricePoint[]>(key);
+    if (state?.data && Date.now() - state.dataUpdatedAt < PRICE_DATA_STALE_TIME) {
+      entries[symbol] = { data: state.data };
+      return false;
+    }
+    return true;
+  });
+  if (missing.length === 0) return entries;
+
+  const response = await fetch('/api/prices/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      symbols: missing,
+      startDate: startDate?.toISOString(),
+      endDate: endDate?.toISOString(),
+      interval,
+    }),
+  });
+
+  if (!response.ok) {
+    throw await toRequestError(response, startDate);
+  }
+
+  const batch: PriceDataBatchResponse = await response.json();
+
+  for (const result of batch.results) {
+    if ('error' in result) {
+      entries[result.symbol] = { error: describePriceError(result, startDate) };
+      continue;
+    }
+    // Seed the single-symbol entry so usePriceData(symbol) hits the cache
+    const points = toPricePoints(result);
+    queryClient.setQueryData(priceDataKey(result.symbol, startDate, endDate, interval), points);
+    entries[result.symbol] = { data: points };
+  }
+
+  return entries;
+}
+
+/**
+ * Fetch several symbols over the same range and interval in one request.
+ * Data is keyed by upper-cased symbol; each symbol either has data or its
+ * own error, so one bad ticker doesn't fail the rest.
+ */
+export function usePriceDataBatch(
+  symbols: string[],
+  startDate?: Date,
+  endDate?: Date,
+  interval: PriceInterval = '1d'
+) {
+  const queryClient = useQueryClient();
+  const normalized = [...new Set(symbols.map((s) => s.toUpperCase()))].sort();
+
+  return useQuery({
+    queryKey: ['priceDataBatch', normalized, startDate?.toISOString(), endDate?.toISOString(), interval],
+    queryFn: () => fetchPriceDataBatch(queryClient, normalized, startDate, endDate, interval),
+    enabled: normalized.length > 0,
+    retry: shouldRetry,
+    staleTime: PRICE_DATA_STALE_TIME,
     gcTime: 30 * 60 * 1000, // 30 minutes
   });
 }
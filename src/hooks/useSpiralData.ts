@@ -0,0 +1,188 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { Asset, AssetSeries, PricePoint, PriceBasis, PriceUnit, SpiralConfig } from '@/types';
+import { applyPriceBasis, calculateSeriesLayouts, SeriesLayout, SpiralScaling } from '@/lib/spiral/geometry';
+import { calculateRatioSeries } from '@/lib/data/ratio';
+import { convertSeries } from '@/lib/data/currency';
+import { CpiObservation, cpiCoverage, deflateSeries, defaultInflationBase, realPriceLabel } from '@/lib/data/inflation';
+import { resampleSeries, resolveResolution } from '@/lib/data/resample';
+
+interface Deflation {
+  cpi: CpiObservation[];
+  baseDate: Date;
+}
+
+/**
+ * CPI and base date when real prices are on and an index is loaded.
+ * Ratios are left alone: deflating both legs cancels out.
+ */
+function resolveDeflation(
+  config: Pick<SpiralConfig, 'realPrices' | 'inflationBaseDate'>,
+  cpi: CpiObservation[],
+  isRatio: boolean
+): Deflation | null {
+  if (!config.realPrices || isRatio) return null;
+
+  const baseDate = config.inflationBaseDate ?? defaultInflationBase(cpi);
+  return baseDate ? { cpi, baseDate } : null;
+}
+
+/**
+ * Apply price basis, currency conversion, then deflation to as-traded bars
+ */
+function toDisplayPrices(
+  priceData: PricePoint[],
+  fxData: PricePoint[],
+  basis: PriceBasis,
+  deflation: Deflation | null = null
+): PricePoint[] {
+  const prices = applyPriceBasis(priceData, basis);
+  const converted = fxData.length > 0 ? convertSeries(prices, fxData) : prices;
+  return deflation ? deflateSeries(converted, deflation.cpi, deflation.baseDate) : converted;
+}
+
+// Imported series are in whatever currency the file was, so they are never converted
+function fxDataFor(asset: Asset | null, fxData: PricePoint[]): PricePoint[] {
+  return asset?.source === 'import' ? [] : fxData;
+}
+
+/**
+ * Resample to the configured resolution; runs last so every color mode
+ * and statistic sees the bars actually drawn
+ */
+function useResample(): (priceData: PricePoint[]) => PricePoint[] {
+  const { config } = useAppStore();
+  const { resolution, resolutionDays, cycleDuration, customDays, cycleEvents } = config;
+
+  return useCallback(
+    (priceData: PricePoint[]) => resampleSeries(
+      priceData,
+      resolveResolution(priceData, { resolution, resolutionDays, cycleDuration, customDays, cycleEvents })
+    ),
+    [resolution, resolutionDays, cycleDuration, customDays, cycleEvents]
+  );
+}
+
+function useDeflation(): Deflation | null {
+  const { config, bundledCpi, customCpi, ratioData } = useAppStore();
+  const { realPrices, inflationBaseDate } = config;
+  const cpi = customCpi?.data ?? bundledCpi;
+  const isRatio = ratioData.length > 0;
+
+  return useMemo(
+    () => resolveDeflation({ realPrices, inflationBaseDate }, cpi, isRatio),
+    [realPrices, inflationBaseDate, cpi, isRatio]
+  );
+}
+
+/**
+ * Price data as it should be displayed: the store holds as-traded bars in
+ * USD, this applies the configured price basis, display currency and
+ * inflation adjustment on top, divides by the ratio asset when one is set,
+ * and resamples to the configured resolution.
+ */
+export function useSpiralData(): PricePoint[] {
+  const { asset, priceData, ratioData, fxData, config } = useAppStore();
+  const deflation = useDeflation();
+  const resample = useResample();
+
+  return useMemo(() => {
+    const prices = toDisplayPrices(priceData, fxDataFor(asset, fxData), config.priceBasis, deflation);
+    if (ratioData.length === 0) return resample(prices);
+    return resample(
+      calculateRatioSeries(prices, toDisplayPrices(ratioData, fxData, config.priceBasis), config.interval)
+    );
+  }, [asset, priceData, ratioData, fxData, deflation, resample, config.priceBasis, config.interval]);
+}
+
+export interface DisplaySeries {
+  series: AssetSeries;
+  priceData: PricePoint[];
+  isActive: boolean;
+}
+
+/**
+ * Visible series with data, each prepared the same way as useSpiralData
+ */
+export function useSpiralSeries(): DisplaySeries[] {
+  const { seriesList, asset, ratioData, fxData, config } = useAppStore();
+  const deflation = useDeflation();
+  const resample = useResample();
+
+  return useMemo(() => {
+    const denominator = ratioData.length > 0 ? toDisplayPrices(ratioData, fxData, config.priceBasis) : null;
+
+    return seriesList
+      .filter((series) => series.visible && series.priceData.length > 0)
+      .map((series) => {
+        const prices = toDisplayPrices(series.priceData, fxDataFor(series.asset, fxData), config.priceBasis, deflation);
+        return {
+          series,
+          priceData: resample(denominator ? calculateRatioSeries(prices, denominator, config.interval) : prices),
+          isActive: series.asset.symbol === asset?.symbol,
+        };
+      })
+      .filter((display) => display.priceData.length > 0);
+  }, [seriesList, asset, ratioData, fxData, deflation, resample, config.priceBasis, config.interval]);
+}
+
+/**
+ * Shared layouts for the displayed series, plus the series and scaling the
+ * price level rings follow: the shared radius, or the active series when
+ * each has its own
+ */
+export function useSeriesLayouts(displaySeries: DisplaySeries[]): {
+  layouts: SeriesLayout[];
+  rings: { priceData: PricePoint[]; scaling: SpiralScaling } | null;
+} {
+  const { config } = useAppStore();
+
+  const layouts = useMemo(
+    () => calculateSeriesLayouts(displaySeries.map((s) => s.priceData), config, 10, 5),
+    [displaySeries, config]
+  );
+
+  const rings = useMemo(() => {
+    if (displaySeries.length === 0) return null;
+    if (config.seriesRadiusScale === 'shared') {
+      return { priceData: displaySeries.flatMap((s) => s.priceData), scaling: layouts[0] };
+    }
+    const index = Math.max(displaySeries.findIndex((s) => s.isActive), 0);
+    return { priceData: displaySeries[index].priceData, scaling: layouts[index] };
+  }, [displaySeries, layouts, config.seriesRadiusScale]);
+
+  return { layouts, rings };
+}
+
+/**
+ * Unit of the displayed prices, for formatPrice.
+ * Follows the data actually loaded, so labels never run ahead of a fetch.
+ */
+export function usePriceUnit(): PriceUnit {
+  const { ratioData, fxData, config } = useAppStore();
+  if (ratioData.length > 0) return 'ratio';
+  return fxData.length > 0 ? config.displayCurrency : 'USD';
+}
+
+/**
+ * Label for displayed real prices (price level, and any bars the CPI index
+ * doesn't reach), or null when prices are nominal
+ */
+export function useRealPriceLabel(): string | null {
+  const { priceData, seriesList } = useAppStore();
+  const deflation = useDeflation();
+
+  return useMemo(() => {
+    if (!deflation) return null;
+
+    const spans = [priceData, ...seriesList.filter((s) => s.visible).map((s) => s.priceData)]
+      .filter((data) => data.length > 0);
+    if (spans.length === 0) return realPriceLabel(deflation.baseDate);
+
+    const first = new Date(Math.min(...spans.map((data) => data[0].timestamp.getTime())));
+    const last = new Date(Math.max(...spans.map((data) => data[data.length - 1].timestamp.getTime())));
+    return realPriceLabel(deflation.baseDate, cpiCoverage(deflation.cpi, first, last));
+  }, [deflation, priceData, seriesList]);
+}
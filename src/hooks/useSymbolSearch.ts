@@ -0,0 +1,35 @@
+'use client';
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Asset } from '@/types';
+
+interface SymbolSearchResponse {
+  query: string;
+  results: Asset[];
+  source: 'provider' | 'local';
+}
+
+async function fetchSymbolSearch(query: string): Promise<Asset[]> {
+  const params = new URLSearchParams({ q: query });
+  const response = await fetch(`/api/search?${params.toString()}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || 'Failed to search symbols');
+  }
+
+  const data: SymbolSearchResponse = await response.json();
+  return data.results;
+}
+
+export function useSymbolSearch(query: string) {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: ['symbolSearch', trimmed.toUpperCase()],
+    queryFn: () => fetchSymbolSearch(trimmed),
+    enabled: trimmed.length > 0,
+    placeholderData: keepPreviousData, // Keep the dropdown steady while typing
+    staleTime: 60 * 60 * 1000, // 1 hour
+  });
+}
@@ -0,0 +1,268 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HistoricalQuote, CorporateEvents, PriceInterval } from '@/types';
+import { PriceProvider, HistoryQuery, PriceHistory } from '@/lib/providers';
+import { isIntradayInterval, isPriceInterval, INTRADAY_MINUTES } from '@/lib/data/intervals';
+import { symbolToFileName } from '@/lib/data/files';
+
+// Default location of the on-disk cache, relative to the project root
+export const DEFAULT_CACHE_DIR = path.join(process.cwd(), '.cache', 'prices');
+
+export type CacheStatus = 'hit' | 'partial' | 'miss' | 'bypass';
+
+export interface CacheInfo {
+  status: CacheStatus;
+  lastRefreshed: string | null; // ISO timestamp of the last upstream fetch
+}
+
+/**
+ * One cache file per provider + symbol + interval.
+ * `coveredStart`/`coveredEnd` is the contiguous range already fetched upstream,
+ * which can be wider than the bars themselves (weekends, holidays).
+ */
+interface CacheEntry {
+  provider: string;
+  symbol: string;
+  interval: PriceInterval;
+  coveredStart: string;
+  coveredEnd: string;
+  lastRefreshed: string;
+  bars: (Omit<HistoricalQuote, 'date'> & { date: string })[];
+  events?: {
+    dividends: { date: string; amount: number }[];
+    splits: { date: string; numerator: number; denominator: number }[];
+  };
+}
+
+type Dated = { date: Date };
+
+function cacheDir(): string {
+  return process.env.PRICE_CACHE_DIR || DEFAULT_CACHE_DIR;
+}
+
+export function isCacheEnabled(): boolean {
+  return process.env.PRICE_CACHE !== 'off';
+}
+
+function cacheFilePath(provider: string, symbol: string, interval: PriceInterval): string {
+  return path.join(cacheDir(), provider, `${symbolToFileName(symbol)}_${interval}.json`);
+}
+
+/**
+ * How stale the end of the cached range may be before the tail is refetched.
+ * Intraday bars refresh every bar; daily and longer bars once an hour.
+ */
+function refreshToleranceMs(interval: PriceInterval): number {
+  const minutes = isIntradayInterval(interval) ? INTRADAY_MINUTES[interval] : 60;
+  return minutes * 60 * 1000;
+}
+
+async function readEntry(filePath: string): Promise<CacheEntry | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+async function writeEntry(filePath: string, entry: CacheEntry): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename so concurrent readers never see a partial file
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(entry));
+  await fs.rename(tempPath, filePath);
+}
+
+function entryToHistory(entry: CacheEntry): PriceHistory {
+  return {
+    quotes: entry.bars.map((bar) => ({ ...bar, date: new Date(bar.date) })),
+    events: {
+      dividends: (entry.events?.dividends ?? []).map((d) => ({ ...d, date: new Date(d.date) })),
+      splits: (entry.events?.splits ?? []).map((s) => ({ ...s, date: new Date(s.date) })),
+    },
+  };
+}
+
+function withIsoDates<T extends Dated>(items: T[]): (Omit<T, 'date'> & { date: string })[] {
+  return items.map((item) => ({ ...item, date: item.date.toISOString() }));
+}
+
+/**
+ * Merge dated lists by timestamp; items from `updates` replace existing ones
+ */
+function mergeByDate<T extends Dated>(existing: T[], updates: T[]): T[] {
+  const byTime = new Map<number, T>();
+  for (const item of existing) byTime.set(item.date.getTime(), item);
+  for (const item of updates) byTime.set(item.date.getTime(), item);
+  return [...byTime.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function mergeHistory(existing: PriceHistory, updates: PriceHistory): PriceHistory {
+  return {
+    quotes: mergeByDate(existing.quotes, updates.quotes),
+    events: {
+      dividends: mergeByDate(existing.events.dividends, updates.events.dividends),
+      splits: mergeByDate(existing.events.splits, updates.events.splits),
+    },
+  };
+}
+
+/**
+ * Whether `updates` holds a dividend or split that `existing` doesn't
+ */
+function hasNewEvents(existing: PriceHistory, updates: PriceHistory): boolean {
+  const known = new Set(
+    [...existing.events.dividends, ...existing.events.splits].map((event) => event.date.getTime())
+  );
+  return [...updates.events.dividends, ...updates.events.splits].some((event) => !known.has(event.date.getTime()));
+}
+
+function filterHistory(history: PriceHistory, period1: Date, period2: Date): PriceHistory {
+  const start = period1.getTime();
+  const end = period2.getTime();
+  const inRange = (item: Dated) => item.date.getTime() >= start && item.date.getTime() <= end;
+
+  const events: CorporateEvents = {
+    dividends: history.events.dividends.filter(inRange),
+    splits: history.events.splits.filter(inRange),
+  };
+  return { quotes: history.quotes.filter(inRange), events };
+}
+
+/**
+ * Fetch history through the on-disk cache.
+ *
+ * Ranges already covered are served from disk; only the missing head
+ * and/or tail is requested from the provider. The last cached bar is always
+ * refetched with the tail since it may have been in progress when stored.
+ * When the fetched part brings a new dividend or split, the whole covered
+ * range is refetched instead.
+ */
+export async function fetchHistoryCached(
+  provider: PriceProvider,
+  query: HistoryQuery
+): Promise<{ history: PriceHistory; cache: CacheInfo }> {
+  if (!isCacheEnabled()) {
+    const history = await provider.fetchHistory(query);
+    return { history, cache: { status: 'bypass', lastRefreshed: new Date().toISOString() } };
+  }
+
+  const { symbol, interval, period1, period2 } = query;
+  const filePath = cacheFilePath(provider.name, symbol, interval);
+  const entry = await readEntry(filePath);
+  const now = new Date();
+
+  let history: PriceHistory;
+  let coveredStart: Date;
+  let coveredEnd: Date;
+  let status: CacheStatus;
+
+  if (!entry) {
+    history = await provider.fetchHistory(query);
+    coveredStart = period1;
+    coveredEnd = period2;
+    status = 'miss';
+  } else {
+    const cached = entryToHistory(entry);
+    history = cached;
+    coveredStart = new Date(entry.coveredStart);
+    coveredEnd = new Date(entry.coveredEnd);
+    status = 'hit';
+    const updates: PriceHistory[] = [];
+
+    // Missing head: fetch up to where the cache starts
+    if (period1.getTime() < coveredStart.getTime()) {
+      const head = await provider.fetchHistory({ ...query, period2: coveredStart });
+      updates.push(head);
+      history = mergeHistory(history, head);
+      coveredStart = period1;
+      status = 'partial';
+    }
+
+    // Missing tail: refetch from the last cached bar onwards
+    if (period2.getTime() - coveredEnd.getTime() > refreshToleranceMs(interval)) {
+      const lastBar = history.quotes[history.quotes.length - 1];
+      const tailStart = lastBar && lastBar.date.getTime() < coveredEnd.getTime()
+        ? lastBar.date
+        : coveredEnd;
+      const tail = await provider.fetchHistory({ ...query, period1: tailStart });
+      updates.push(tail);
+      history = mergeHistory(history, tail);
+      coveredEnd = period2;
+      status = 'partial';
+    }
+
+    // A new dividend or split changes the provider's adjusted values for all
+    // earlier bars, so cached bars can't be mixed with fresh ones
+    if (updates.some((update) => hasNewEvents(cached, update))) {
+      history = await provider.fetchHistory({ ...query, period1: coveredStart, period2: coveredEnd });
+      status = 'miss';
+    }
+  }
+
+  const lastRefreshed = status === 'hit' && entry ? entry.lastRefreshed : now.toISOString();
+
+  // Caching is best-effort: a read-only or full disk must not fail the fetch
+  if (status !== 'hit') {
+    try {
+      await writeEntry(filePath, {
+        provider: provider.name,
+        symbol,
+        interval,
+        coveredStart: coveredStart.toISOString(),
+        // Never claim coverage beyond the present
+        coveredEnd: new Date(Math.min(coveredEnd.getTime(), now.getTime())).toISOString(),
+        lastRefreshed,
+        bars: withIsoDates(history.quotes),
+        events: {
+          dividends: withIsoDates(history.events.dividends),
+          splits: withIsoDates(history.events.splits),
+        },
+      });
+    } catch (error) {
+      console.error(`Error writing price cache for ${symbol}:`, error);
+    }
+  }
+
+  return {
+    history: filterHistory(history, period1, period2),
+    cache: { status, lastRefreshed },
+  };
+}
+
+/**
+ * Remove every cached interval of a symbol, across all providers.
+ * Returns the number of cache files deleted.
+ */
+export async function purgeSymbol(symbol: string): Promise<number> {
+  const prefix = `${symbolToFileName(symbol)}_`;
+  let purged = 0;
+
+  let providerDirs: string[];
+  try {
+    providerDirs = await fs.readdir(cacheDir());
+  } catch {
+    return 0;
+  }
+
+  for (const providerDir of providerDirs) {
+    const dir = path.join(cacheDir(), providerDir);
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      continue;
+    }
+
+    for (const file of files) {
+      // Match exactly <SYMBOL>_<interval>.json so "BTC" doesn't purge "BTC_X"
+      const interval = file.slice(prefix.length).replace(/\.json$/, '');
+      if (file.startsWith(prefix) && file.endsWith('.json') && isPriceInterval(interval)) {
+        await fs.unlink(path.join(dir, file));
+        purged++;
+      }
+    }
+  }
+
+  return purged;
+}
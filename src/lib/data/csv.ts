@@ -0,0 +1,57 @@
+/**
+ * Minimal CSV parser
+ *
+ * Handles quoted fields (including escaped "" quotes and embedded
+ * delimiters/newlines), CRLF line endings and blank lines.
+ * Returns raw string cells; interpretation is left to the caller.
+ */
+export function parseCsv(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      field = '';
+      if (row.some((cell) => cell.trim() !== '')) {
+        rows.push(row);
+      }
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+
+  // Flush the final line (files often lack a trailing newline)
+  row.push(field);
+  if (row.some((cell) => cell.trim() !== '')) {
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -0,0 +1,53 @@
+import { DisplayCurrency, PricePoint } from '@/types';
+
+export const DISPLAY_CURRENCIES: DisplayCurrency[] = ['USD', 'EUR', 'GBP', 'CHF'];
+
+// Prefix used by formatPrice
+export const CURRENCY_SYMBOLS: Record<DisplayCurrency, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+  CHF: 'CHF ',
+};
+
+/**
+ * Yahoo symbol of the FX series quoting one unit of `currency` in USD
+ * (EURUSD=X is how many dollars one euro buys)
+ */
+export function fxSymbol(currency: DisplayCurrency): string {
+  return `${currency}USD=X`;
+}
+
+/**
+ * Convert a USD series into another currency using an FX series quoting
+ * that currency in USD.
+ *
+ * Each point uses the latest FX bar at or before its timestamp, so weekends
+ * and holidays of the FX market are forward-filled. Points before the first
+ * FX bar use the first rate. Prices, OHLC and dividends are converted;
+ * volume and split ratios are unitless and kept as is.
+ */
+export function convertSeries(priceData: PricePoint[], fxData: PricePoint[]): PricePoint[] {
+  const rates = fxData.filter((fx) => fx.price > 0);
+  if (rates.length === 0) return priceData;
+
+  let rateIndex = 0;
+  return priceData.map((point) => {
+    const time = point.timestamp.getTime();
+    while (rateIndex + 1 < rates.length && rates[rateIndex + 1].timestamp.getTime() <= time) {
+      rateIndex++;
+    }
+    const rate = rates[rateIndex].price;
+    const convert = (value: number | undefined) => (value === undefined ? undefined : value / rate);
+
+    return {
+      ...point,
+      price: point.price / rate,
+      open: convert(point.open),
+      high: convert(point.high),
+      low: convert(point.low),
+      adjClose: convert(point.adjClose),
+      dividend: convert(point.dividend),
+    };
+  });
+}
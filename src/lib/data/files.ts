@@ -0,0 +1,6 @@
+/**
+ * Map a symbol to a safe file name (no path separators or leading dots)
+ */
+export function symbolToFileName(symbol: string): string {
+  return symbol.toUpperCase().replace(/[^A-Z0-9.=^-]/g, '_').replace(/^\.+/, '_');
+}
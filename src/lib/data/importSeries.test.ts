@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { detectColumnMapping, parseCsvTable, tableToPricePoints } from './importSeries';
+
+describe('parseCsvTable', () => {
+  it('reads row 1 as the header when it names the columns', () => {
+    const table = parseCsvTable('Date,Close\n2024-01-02,100\n2024-01-03,101\n');
+    expect(table.columns).toEqual(['Date', 'Close']);
+    expect(table.rows).toHaveLength(2);
+  });
+
+  it('keeps row 1 as data when the file has no header', () => {
+    const table = parseCsvTable('2024-01-02,100\n2024-01-03,101\n2024-01-04,102\n');
+    expect(table.columns).toEqual(['', '']);
+    expect(table.rows).toHaveLength(3);
+
+    const { points, errors } = tableToPricePoints(table, detectColumnMapping(table.columns), 'iso');
+    expect(errors).toEqual([]);
+    expect(points.map((p) => p.price)).toEqual([100, 101, 102]);
+  });
+
+  it('does not take a header with a date-like name for data', () => {
+    const table = parseCsvTable('Close 1,Close\n2024-01-02,100\n');
+    expect(table.columns).toEqual(['Close 1', 'Close']);
+    expect(table.rows).toHaveLength(1);
+  });
+});
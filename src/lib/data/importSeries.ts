@@ -0,0 +1,342 @@
+import { PricePoint } from '@/types';
+import { parseCsv } from './csv';
+
+/**
+ * Fields of a PricePoint that can be mapped from an imported column.
+ * `close` becomes PricePoint.price.
+ */
+export type ImportField = 'date' | 'close' | 'open' | 'high' | 'low' | 'volume';
+
+export const IMPORT_FIELDS: ImportField[] = ['date', 'close', 'open', 'high', 'low', 'volume'];
+
+// Column index for each field, or null when the field is not present
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type DateFormat = 'iso' | 'ymd' | 'mdy' | 'dmy' | 'unix-s' | 'unix-ms';
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  iso: 'ISO 8601 (2024-01-31)',
+  ymd: 'YYYY/MM/DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+  'unix-s': 'Unix seconds',
+  'unix-ms': 'Unix milliseconds',
+};
+
+export interface ImportTable {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ImportRowError {
+  row: number; // 1-based data row number (header excluded)
+  message: string;
+}
+
+export interface ImportResult {
+  points: PricePoint[];
+  errors: ImportRowError[];
+}
+
+// Header names recognised for each field (compared lowercase, without spaces/underscores)
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'datetime', 'timestamp', 'time', 'day', 'asof', 'valuedate'],
+  close: ['close', 'adjclose', 'price', 'nav', 'value', 'last', 'equity', 'closeprice'],
+  open: ['open', 'openprice'],
+  high: ['high', 'highprice'],
+  low: ['low', 'lowprice'],
+  volume: ['volume', 'vol', 'qty'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[\s_\-.]/g, '');
+}
+
+/**
+ * Pick the most likely delimiter from the first line of a CSV file
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Parse raw CSV text into a header + rows table.
+ * Row 1 is the header unless it reads as data (a date in the first cell and
+ * a number in the last, where detectColumnMapping looks without names); then
+ * the columns are unnamed and row 1 is kept as data.
+ */
+export function parseCsvTable(text: string): ImportTable {
+  const [first = [], ...rest] = parseCsv(text, detectDelimiter(text));
+  const format = detectDateFormat(rest.map((row) => row[0] ?? ''));
+  const lastValue = parseNumberCell(first[first.length - 1] ?? '');
+  const isData = first.length > 1 &&
+    parseDateCell(first[0], format) !== null &&
+    lastValue !== undefined && !isNaN(lastValue);
+
+  return isData
+    ? { columns: first.map(() => ''), rows: [first, ...rest] }
+    : { columns: first.map((c) => c.trim()), rows: rest };
+}
+
+/**
+ * Parse raw JSON text into a header + rows table.
+ * Accepts an array of row objects or an object with a `data` array.
+ */
+export function parseJsonTable(text: string): ImportTable {
+  const parsed = JSON.parse(text);
+  const records: unknown = Array.isArray(parsed) ? parsed : parsed?.data;
+
+  if (!Array.isArray(records)) {
+    throw new Error('JSON must be an array of rows or an object with a "data" array');
+  }
+
+  const columns: string[] = [];
+  for (const record of records) {
+    if (record && typeof record === 'object') {
+      for (const key of Object.keys(record)) {
+        if (!columns.includes(key)) columns.push(key);
+      }
+    }
+  }
+
+  const rows = records.map((record) =>
+    columns.map((column) => {
+      const value = record && typeof record === 'object'
+        ? (record as Record<string, unknown>)[column]
+        : undefined;
+      return value === undefined || value === null ? '' : String(value);
+    })
+  );
+
+  return { columns, rows };
+}
+
+/**
+ * Parse an uploaded file's contents based on its name
+ */
+export function parseImportFile(fileName: string, text: string): ImportTable {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  return isJson ? parseJsonTable(text) : parseCsvTable(text);
+}
+
+/**
+ * Guess which column holds each field from the header names.
+ * Falls back to the first column for the date when nothing matches.
+ */
+export function detectColumnMapping(columns: string[]): ColumnMapping {
+  const normalized = columns.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    const aliases = COLUMN_ALIASES[field];
+    // Prefer alias order so "Adj Close" only wins when there is no plain "Close"
+    let index = -1;
+    for (const alias of aliases) {
+      index = normalized.indexOf(alias);
+      if (index >= 0) break;
+    }
+    mapping[field] = index >= 0 ? index : null;
+  }
+
+  if (mapping.date === null && columns.length > 0) {
+    mapping.date = 0;
+  }
+  if (mapping.close === null) {
+    // Use the last column that isn't already mapped
+    const used = new Set(Object.values(mapping).filter((i): i is number => i !== null));
+    for (let i = columns.length - 1; i >= 0; i--) {
+      if (!used.has(i)) {
+        mapping.close = i;
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Detect the date format from a sample of date cells.
+ * Slash/dot dates are ambiguous; a component above 12 decides D/M order,
+ * otherwise dots imply day-first and slashes month-first.
+ */
+export function detectDateFormat(samples: string[]): DateFormat {
+  const values = samples.map((s) => s.trim()).filter((s) => s !== '').slice(0, 200);
+  if (values.length === 0) return 'iso';
+
+  if (values.every((v) => /^\d+(\.\d+)?$/.test(v))) {
+    return values.some((v) => Number(v) > 1e11) ? 'unix-ms' : 'unix-s';
+  }
+
+  if (values.every((v) => /^\d{4}-\d{1,2}-\d{1,2}/.test(v))) return 'iso';
+  if (values.every((v) => /^\d{4}[/.]\d{1,2}[/.]\d{1,2}/.test(v))) return 'ymd';
+
+  let firstOver12 = false;
+  let secondOver12 = false;
+  let usesDots = false;
+  for (const value of values) {
+    const match = value.match(/^(\d{1,2})([/.-])(\d{1,2})\2\d{2,4}/);
+    if (!match) continue;
+    if (Number(match[1]) > 12) firstOver12 = true;
+    if (Number(match[3]) > 12) secondOver12 = true;
+    if (match[2] === '.') usesDots = true;
+  }
+
+  if (firstOver12 && !secondOver12) return 'dmy';
+  if (secondOver12 && !firstOver12) return 'mdy';
+  if (usesDots) return 'dmy';
+  // Anything else (e.g. "Jan 31, 2024") is left to the Date constructor via the ISO path
+  return values.some((v) => /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/.test(v)) ? 'mdy' : 'iso';
+}
+
+function expandYear(year: number): number {
+  if (year >= 100) return year;
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Parse a date cell using the given format. Returns null if invalid.
+ */
+export function parseDateCell(value: string, format: DateFormat): Date | null {
+  const text = value.trim();
+  if (text === '') return null;
+
+  let date: Date;
+  switch (format) {
+    case 'unix-s':
+    case 'unix-ms': {
+      const num = Number(text);
+      if (isNaN(num)) return null;
+      date = new Date(format === 'unix-s' ? num * 1000 : num);
+      break;
+    }
+
+    case 'ymd':
+    case 'mdy':
+    case 'dmy': {
+      const match = text.match(/^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+      if (!match) return null;
+      const [a, b, c] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      const [year, month, day] =
+        format === 'ymd' ? [a, b, c] :
+        format === 'mdy' ? [expandYear(c), a, b] :
+        [expandYear(c), b, a];
+      const hours = match[4] ? Number(match[4]) : 0;
+      const minutes = match[5] ? Number(match[5]) : 0;
+      const seconds = match[6] ? Number(match[6]) : 0;
+      date = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+      // Reject rollovers such as 31/02
+      if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+      break;
+    }
+
+    default: {
+      // Date-only ISO strings parse as UTC; anything else goes through Date as-is
+      date = new Date(text);
+    }
+  }
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a numeric cell, tolerating currency symbols, thousands separators,
+ * decimal commas ("1.234,5") and percent signs.
+ * Returns undefined for empty cells and NaN for garbage.
+ */
+export function parseNumberCell(value: string): number | undefined {
+  let text = value.trim().replace(/[$€£¥%\s]/g, '');
+  if (text === '') return undefined;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  const isDecimalComma = lastComma > lastDot &&
+    (lastDot >= 0 || !/^-?\d{1,3}(,\d{3})+$/.test(text));
+
+  text = isDecimalComma
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  return Number(text);
+}
+
+/**
+ * Convert an imported table into PricePoints using the given column mapping.
+ * Invalid rows are skipped and reported individually; the result is sorted
+ * by timestamp with duplicate timestamps reported and dropped.
+ */
+export function tableToPricePoints(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  dateFormat: DateFormat
+): ImportResult {
+  const errors: ImportRowError[] = [];
+  const parsed: { point: PricePoint; row: number }[] = [];
+  const dateColumn = mapping.date;
+  const closeColumn = mapping.close;
+
+  if (dateColumn === null || closeColumn === null) {
+    return {
+      points: [],
+      errors: [{ row: 0, message: 'Both a date column and a close column must be mapped' }],
+    };
+  }
+
+  const optionalFields: Exclude<ImportField, 'date' | 'close'>[] = ['open', 'high', 'low', 'volume'];
+
+  table.rows.forEach((cells, i) => {
+    const row = i + 1;
+    const dateCell = cells[dateColumn] ?? '';
+    const timestamp = parseDateCell(dateCell, dateFormat);
+    if (!timestamp) {
+      errors.push({ row, message: `Invalid date "${dateCell}"` });
+      return;
+    }
+
+    const closeCell = cells[closeColumn] ?? '';
+    const price = parseNumberCell(closeCell);
+    if (price === undefined || isNaN(price)) {
+      errors.push({ row, message: `Invalid close "${closeCell}"` });
+      return;
+    }
+    if (price <= 0) {
+      errors.push({ row, message: `Close must be positive, got ${price}` });
+      return;
+    }
+
+    const point: PricePoint = { timestamp, price };
+    for (const field of optionalFields) {
+      const column = mapping[field];
+      if (column === null) continue;
+      const value = parseNumberCell(cells[column] ?? '');
+      if (value === undefined) continue;
+      if (isNaN(value)) {
+        errors.push({ row, message: `Ignored invalid ${field} "${cells[column]}"` });
+        continue;
+      }
+      point[field] = value;
+    }
+
+    parsed.push({ point, row });
+  });
+
+  parsed.sort((a, b) => a.point.timestamp.getTime() - b.point.timestamp.getTime());
+
+  // Drop duplicate timestamps, keeping the first occurrence
+  const points: PricePoint[] = [];
+  for (const { point, row } of parsed) {
+    const previous = points[points.length - 1];
+    if (previous && previous.timestamp.getTime() === point.timestamp.getTime()) {
+      errors.push({ row, message: `Duplicate date ${point.timestamp.toISOString().split('T')[0]} dropped` });
+      continue;
+    }
+    points.push(point);
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+
+  return { points, errors };
+}
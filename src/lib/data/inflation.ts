@@ -0,0 +1,130 @@
+import { PricePoint } from '@/types';
+import { parseCsvTable, detectDateFormat, parseDateCell, parseNumberCell } from './importSeries';
+
+/**
+ * Bundled US CPI-U index (BLS series CUUR0000SA0, not seasonally adjusted,
+ * 1982-84 = 100), served from /public. One row per month, stamped on the 1st
+ * like FRED's CPIAUCSL export; extend it as new releases come out.
+ */
+export const BUNDLED_CPI_URL = '/data/cpi-us.csv';
+export const BUNDLED_CPI_NAME = 'US CPI-U (monthly)';
+
+export interface CpiObservation {
+  date: Date;
+  value: number;
+}
+
+// Ends of a date span the index doesn't reach (null = covered)
+export interface CpiCoverage {
+  startsAfter: Date | null; // Index's first date, when the span starts earlier
+  endsBefore: Date | null; // Index's last date, when the span ends later
+}
+
+/**
+ * Parse a CPI file: first column the date, second the index value.
+ * Rows that don't parse (notes, "." placeholders) are skipped; files with
+ * or without a header row both work (see parseCsvTable).
+ */
+export function parseCpiCsv(text: string): CpiObservation[] {
+  const { rows } = parseCsvTable(text);
+  const format = detectDateFormat(rows.map((row) => row[0] ?? ''));
+
+  return rows
+    .flatMap((row): CpiObservation[] => {
+      const date = parseDateCell(row[0] ?? '', format);
+      const value = parseNumberCell(row[1] ?? '');
+      return date && value !== undefined && value > 0 ? [{ date, value }] : [];
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Index value at any date, linearly interpolated between observations.
+ * Dates outside the index are held at the first/last value; see cpiCoverage
+ * for flagging them.
+ */
+export function cpiAt(cpi: CpiObservation[], date: Date): number {
+  const time = date.getTime();
+  if (time <= cpi[0].date.getTime()) return cpi[0].value;
+
+  const last = cpi[cpi.length - 1];
+  if (time >= last.date.getTime()) return last.value;
+
+  // Binary search for the observation pair around `date`
+  let lo = 0;
+  let hi = cpi.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (cpi[mid].date.getTime() <= time) lo = mid;
+    else hi = mid;
+  }
+
+  const start = cpi[lo];
+  const end = cpi[hi];
+  const t = (time - start.date.getTime()) / (end.date.getTime() - start.date.getTime());
+  return start.value + (end.value - start.value) * t;
+}
+
+/**
+ * Where a date span from `first` to `last` runs past the index
+ */
+export function cpiCoverage(cpi: CpiObservation[], first: Date, last: Date): CpiCoverage {
+  if (cpi.length === 0) return { startsAfter: null, endsBefore: null };
+  const start = cpi[0].date;
+  const end = cpi[cpi.length - 1].date;
+  return {
+    startsAfter: first < start ? start : null,
+    endsBefore: last > end ? end : null,
+  };
+}
+
+/**
+ * Base date used when none is chosen: the latest observation ("today's money")
+ */
+export function defaultInflationBase(cpi: CpiObservation[]): Date | null {
+  return cpi.length > 0 ? cpi[cpi.length - 1].date : null;
+}
+
+/**
+ * Express a series in real terms at the price level of `baseDate`.
+ * Prices, OHLC and dividends are scaled; volume and splits are kept as is.
+ */
+export function deflateSeries(priceData: PricePoint[], cpi: CpiObservation[], baseDate: Date): PricePoint[] {
+  if (cpi.length === 0) return priceData;
+
+  const baseValue = cpiAt(cpi, baseDate);
+  return priceData.map((point) => {
+    const factor = baseValue / cpiAt(cpi, point.timestamp);
+    const scale = (value: number | undefined) => (value === undefined ? undefined : value * factor);
+
+    return {
+      ...point,
+      price: point.price * factor,
+      open: scale(point.open),
+      high: scale(point.high),
+      low: scale(point.low),
+      adjClose: scale(point.adjClose),
+      dividend: scale(point.dividend),
+    };
+  });
+}
+
+const monthLabel = (date: Date) =>
+  date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Label for values expressed at the price level of `baseDate`, noting any
+ * bars beyond the index (those are deflated at its first/last value)
+ */
+export function realPriceLabel(
+  baseDate: Date,
+  coverage: CpiCoverage = { startsAfter: null, endsBefore: null }
+): string {
+  const gaps = [
+    coverage.startsAfter && `before ${monthLabel(coverage.startsAfter)}`,
+    coverage.endsBefore && `after ${monthLabel(coverage.endsBefore)}`,
+  ].filter(Boolean);
+
+  const label = `Real, ${monthLabel(baseDate)} prices`;
+  return gaps.length > 0 ? `${label} (no CPI ${gaps.join(' or ')})` : label;
+}
@@ -0,0 +1,80 @@
+import { PriceInterval } from '@/types';
+
+export const PRICE_INTERVALS: PriceInterval[] = ['1m', '5m', '15m', '1h', '1d', '1wk', '1mo'];
+
+export type IntradayInterval = Extract<PriceInterval, '1m' | '5m' | '15m' | '1h'>;
+
+// How far back intraday data is available upstream, in days
+// (Yahoo serves 1m bars for ~7 days, 5m/15m for 60 days, 1h for 730 days)
+export const INTRADAY_MAX_DAYS: Record<IntradayInterval, number> = {
+  '1m': 7,
+  '5m': 59,
+  '15m': 59,
+  '1h': 729,
+};
+
+// Bar length in minutes for intraday intervals
+export const INTRADAY_MINUTES: Record<IntradayInterval, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '1h': 60,
+};
+
+export function isPriceInterval(value: string): value is PriceInterval {
+  return (PRICE_INTERVALS as string[]).includes(value);
+}
+
+export function isIntradayInterval(interval: PriceInterval): interval is IntradayInterval {
+  return interval in INTRADAY_MAX_DAYS;
+}
+
+/**
+ * Clamp a date range to what the given interval allows.
+ * Intraday intervals only reach back a limited number of days from `now`;
+ * daily and longer intervals are returned unchanged.
+ */
+export function clampRangeForInterval(
+  startDate: Date,
+  endDate: Date,
+  interval: PriceInterval,
+  now: Date = new Date()
+): { startDate: Date; endDate: Date; clamped: boolean } {
+  if (!isIntradayInterval(interval)) {
+    return { startDate, endDate, clamped: false };
+  }
+
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const earliest = new Date(now.getTime() - INTRADAY_MAX_DAYS[interval] * msPerDay);
+
+  let clamped = false;
+  let start = startDate;
+  let end = endDate;
+
+  if (end.getTime() > now.getTime()) {
+    end = now;
+  }
+  if (start.getTime() < earliest.getTime()) {
+    start = earliest;
+    clamped = true;
+  }
+  // An end date before the available window leaves nothing to fetch
+  if (end.getTime() < start.getTime()) {
+    end = now;
+    clamped = true;
+  }
+
+  return { startDate: start, endDate: end, clamped };
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Nominal length of one bar in milliseconds (a month counts as 30 days)
+ */
+export function intervalLengthMs(interval: PriceInterval): number {
+  if (isIntradayInterval(interval)) return INTRADAY_MINUTES[interval] * 60 * 1000;
+  if (interval === '1wk') return 7 * MS_PER_DAY;
+  if (interval === '1mo') return 30 * MS_PER_DAY;
+  return MS_PER_DAY;
+}
@@ -0,0 +1,151 @@
+import { PriceInterval, HistoricalQuote } from '@/types';
+import { PriceHistory, PriceProvider, PriceDataError } from '@/lib/providers';
+import { CacheInfo, fetchHistoryCached } from '@/lib/cache/priceCache';
+import { clampRangeForInterval } from './intervals';
+
+// Tickers as providers write them: BRK.B, ^GSPC, EURUSD=X, BTC-USD
+const SYMBOL_PATTERN = /^[A-Z0-9.=^-]{1,24}$/i;
+
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol);
+}
+
+function parseDateParam(value: string, name: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new PriceDataError('BAD_DATE', `${name} "${value}" is not a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Resolve the requested range of a prices request.
+ * Defaults to the last 5 years; intraday intervals are clamped to what
+ * upstream can serve. Throws BAD_DATE or INVALID_RANGE.
+ */
+export function resolveRequestRange(
+  startDate: string | null | undefined,
+  endDate: string | null | undefined,
+  interval: PriceInterval
+): { period1: Date; period2: Date; clamped: boolean } {
+  const requestedStart = startDate
+    ? parseDateParam(startDate, 'startDate')
+    : new Date(Date.now() - 5 * 365 * 24 * 60 * 60 * 1000); // 5 years ago
+
+  const requestedEnd = endDate ? parseDateParam(endDate, 'endDate') : new Date();
+
+  if (requestedStart.getTime() > requestedEnd.getTime()) {
+    throw new PriceDataError('INVALID_RANGE', 'startDate is after endDate');
+  }
+
+  const { startDate: period1, endDate: period2, clamped } = clampRangeForInterval(
+    requestedStart,
+    requestedEnd,
+    interval
+  );
+  return { period1, period2, clamped };
+}
+
+/**
+ * One bar as serialized in price responses and live updates
+ */
+export function toPriceItem(quote: HistoricalQuote) {
+  return {
+    timestamp: quote.date.toISOString(),
+    price: quote.close,
+    open: quote.open,
+    high: quote.high,
+    low: quote.low,
+    volume: quote.volume,
+    adjClose: quote.adjClose,
+  };
+}
+
+/**
+ * JSON body for one symbol, as returned by /api/prices
+ */
+export function toPriceResponse(
+  symbol: string,
+  interval: PriceInterval,
+  history: PriceHistory,
+  range: { period1: Date; period2: Date; clamped: boolean },
+  cache: CacheInfo
+) {
+  const priceData = history.quotes.map(toPriceItem);
+
+  const events = {
+    dividends: history.events.dividends.map((d) => ({
+      timestamp: d.date.toISOString(),
+      amount: d.amount,
+    })),
+    splits: history.events.splits.map((s) => ({
+      timestamp: s.date.toISOString(),
+      numerator: s.numerator,
+      denominator: s.denominator,
+    })),
+  };
+
+  return {
+    symbol,
+    interval,
+    data: priceData,
+    count: priceData.length,
+    events,
+    range: {
+      startDate: range.period1.toISOString(),
+      endDate: range.period2.toISOString(),
+      clamped: range.clamped,
+    },
+    cache,
+  };
+}
+
+/**
+ * Error for a range without bars, saying where the symbol's data does start
+ * if the provider can tell (one monthly fetch over all history)
+ */
+async function emptyRangeError(provider: PriceProvider, symbol: string): Promise<PriceDataError> {
+  const message = `No data for ${symbol} in this range`;
+  try {
+    const { quotes } = await provider.fetchHistory({
+      symbol,
+      period1: new Date(0),
+      period2: new Date(),
+      interval: '1mo',
+    });
+    if (quotes.length > 0) {
+      return new PriceDataError('EMPTY_RANGE', message, {
+        symbol,
+        availableFrom: quotes[0].date.toISOString(),
+        availableTo: quotes[quotes.length - 1].date.toISOString(),
+      });
+    }
+  } catch {
+    // Best effort; the plain error still explains what happened
+  }
+  return new PriceDataError('EMPTY_RANGE', message, { symbol });
+}
+
+/**
+ * Fetch one symbol through the cache and build its response body.
+ * Throws PriceDataError, EMPTY_RANGE when the range holds no bars.
+ */
+export async function fetchPriceResponse(
+  provider: PriceProvider,
+  symbol: string,
+  interval: PriceInterval,
+  range: { period1: Date; period2: Date; clamped: boolean }
+) {
+  const { history, cache } = await fetchHistoryCached(provider, {
+    symbol,
+    period1: range.period1,
+    period2: range.period2,
+    interval,
+  });
+
+  if (history.quotes.length === 0) {
+    throw await emptyRangeError(provider, symbol);
+  }
+
+  return toPriceResponse(symbol, interval, history, range, cache);
+}
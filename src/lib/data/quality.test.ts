@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { cleanLiveBar, DEFAULT_DATA_QUALITY } from './quality';
+
+const prev = { timestamp: new Date('2024-01-02T15:00:00Z'), price: 100 };
+const bar = (price: number) => ({ timestamp: new Date('2024-01-02T15:01:00Z'), price });
+
+describe('cleanLiveBar', () => {
+  it('passes a normal bar through unchanged', () => {
+    expect(cleanLiveBar(bar(101), prev, DEFAULT_DATA_QUALITY)).toEqual(bar(101));
+  });
+
+  it('flags a jump against the previous bar', () => {
+    expect(cleanLiveBar(bar(1000), prev, DEFAULT_DATA_QUALITY)?.qualityFlag).toBe('jump');
+    expect(cleanLiveBar(bar(1000), prev, { ...DEFAULT_DATA_QUALITY, jumpPolicy: 'drop' })).toBeNull();
+  });
+
+  it('forward-fills a bad price from the previous bar', () => {
+    expect(cleanLiveBar(bar(0), prev, DEFAULT_DATA_QUALITY)?.price).toBe(100);
+    expect(cleanLiveBar(bar(NaN), undefined, DEFAULT_DATA_QUALITY)).toBeNull();
+  });
+});
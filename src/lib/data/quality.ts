@@ -0,0 +1,257 @@
+import { PricePoint, PriceInterval, DataQualityConfig, QualityIssue, QualityIssueType, QualityReport } from '@/types';
+import { isIntradayInterval, INTRADAY_MINUTES } from './intervals';
+
+export const DEFAULT_DATA_QUALITY: DataQualityConfig = {
+  badPricePolicy: 'forwardFill',
+  jumpPolicy: 'flag',
+  jumpThreshold: 0.3,
+};
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueType, string> = {
+  duplicate: 'Duplicate dates',
+  invalid: 'Missing/NaN values',
+  nonPositive: 'Zero or negative prices',
+  unsorted: 'Out-of-order bars',
+  jump: 'Suspicious jumps',
+  missingSession: 'Missing sessions',
+};
+
+// Issues listed in a report; counts are always complete
+const MAX_LISTED_ISSUES = 200;
+
+// Gaps of a single session (e.g. a holiday) are normal and not reported
+const MIN_MISSING_SESSIONS = 2;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const isGoodPrice = (value: number | undefined) => value !== undefined && Number.isFinite(value) && value > 0;
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Sessions expected but absent between two consecutive bars
+ */
+function missingSessionsBetween(prev: Date, curr: Date, interval: PriceInterval, tradingWeekdays: boolean[]): number {
+  const gap = curr.getTime() - prev.getTime();
+
+  if (isIntradayInterval(interval)) {
+    // Overnight and weekend breaks are expected; only gaps within a day count
+    if (formatDate(prev) !== formatDate(curr)) return 0;
+    return Math.round(gap / (INTRADAY_MINUTES[interval] * 60 * 1000)) - 1;
+  }
+  if (interval === '1wk') {
+    return Math.round(gap / (7 * MS_PER_DAY)) - 1;
+  }
+  if (interval === '1mo') {
+    return Math.round(gap / (30.44 * MS_PER_DAY)) - 1;
+  }
+
+  // Daily: count the calendar days in between that should have traded
+  let missing = 0;
+  const start = Date.UTC(prev.getUTCFullYear(), prev.getUTCMonth(), prev.getUTCDate());
+  const end = Date.UTC(curr.getUTCFullYear(), curr.getUTCMonth(), curr.getUTCDate());
+  for (let day = start + MS_PER_DAY; day < end; day += MS_PER_DAY) {
+    if (tradingWeekdays[new Date(day).getUTCDay()]) missing++;
+  }
+  return missing;
+}
+
+/**
+ * UTC weekdays the series normally trades on, learned from the bars themselves
+ * (Mon-Fri for US equities, every day for crypto, Sun-Thu in UTC for Tokyo)
+ */
+function detectTradingWeekdays(priceData: PricePoint[]): boolean[] {
+  const histogram = new Array(7).fill(0);
+  for (const point of priceData) histogram[point.timestamp.getUTCDay()]++;
+  const busiest = Math.max(...histogram);
+  return histogram.map((count) => count >= busiest / 2);
+}
+
+/**
+ * Detect and repair bad bars before they reach the spiral.
+ *
+ * - Bars are sorted and duplicate timestamps collapsed (the last one wins).
+ * - NaN and zero/negative closes follow `badPricePolicy`; bad open/high/low
+ *   values are cleared.
+ * - A jump beyond `jumpThreshold` that reverts on the next bar is treated as
+ *   a bad tick and follows `jumpPolicy`. One-way moves are left alone.
+ * - Missing sessions are reported and the bar after the gap is flagged;
+ *   nothing is invented to fill them.
+ *
+ * Forward-fill replaces the value with the previous good close; flag does the
+ * same for unusable values but keeps plausible ones, and marks the bar either
+ * way. Bad bars before the first good one are always dropped.
+ */
+export function cleanPriceData(
+  priceData: PricePoint[],
+  config: DataQualityConfig,
+  interval: PriceInterval
+): { points: PricePoint[]; report: QualityReport } {
+  const counts: Record<QualityIssueType, number> = {
+    duplicate: 0,
+    invalid: 0,
+    nonPositive: 0,
+    unsorted: 0,
+    jump: 0,
+    missingSession: 0,
+  };
+  const issues: QualityIssue[] = [];
+  const report = (type: QualityIssueType, timestamp: Date, message: string, count: number = 1) => {
+    counts[type] += count;
+    if (issues.length < MAX_LISTED_ISSUES) issues.push({ type, timestamp, message });
+  };
+
+  // Order and uniqueness
+  const dated = priceData.filter((point) => !isNaN(point.timestamp.getTime()));
+  for (let i = 1; i < dated.length; i++) {
+    if (dated[i].timestamp.getTime() < dated[i - 1].timestamp.getTime()) {
+      report('unsorted', dated[i].timestamp, `${formatDate(dated[i].timestamp)} listed after a later bar`);
+    }
+  }
+  const sorted = counts.unsorted > 0
+    ? [...dated].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    : dated;
+
+  const unique: PricePoint[] = [];
+  for (const point of sorted) {
+    const last = unique[unique.length - 1];
+    if (last && last.timestamp.getTime() === point.timestamp.getTime()) {
+      report('duplicate', point.timestamp, `${formatDate(point.timestamp)} appears more than once`);
+      unique[unique.length - 1] = point;
+    } else {
+      unique.push(point);
+    }
+  }
+
+  // Unusable prices
+  const valid: PricePoint[] = [];
+  for (const point of unique) {
+    const lastGood = valid[valid.length - 1]?.price;
+
+    if (isGoodPrice(point.price)) {
+      const hasBadRange = [point.open, point.high, point.low].some((v) => v !== undefined && !isGoodPrice(v));
+      if (hasBadRange) {
+        report('invalid', point.timestamp, `${formatDate(point.timestamp)} has invalid open/high/low`);
+        valid.push({
+          ...point,
+          open: isGoodPrice(point.open) ? point.open : undefined,
+          high: isGoodPrice(point.high) ? point.high : undefined,
+          low: isGoodPrice(point.low) ? point.low : undefined,
+        });
+      } else {
+        valid.push(point);
+      }
+      continue;
+    }
+
+    const type: QualityIssueType = Number.isFinite(point.price) ? 'nonPositive' : 'invalid';
+    report(type, point.timestamp, `${formatDate(point.timestamp)} close is ${point.price}`);
+
+    if (config.badPricePolicy === 'drop' || lastGood === undefined) continue;
+    valid.push({
+      ...point,
+      price: lastGood,
+      open: lastGood,
+      high: lastGood,
+      low: lastGood,
+      ...(config.badPricePolicy === 'flag' && { qualityFlag: type }),
+    });
+  }
+
+  // Reverting spikes
+  const threshold = Math.log(1 + config.jumpThreshold);
+  const points: PricePoint[] = [];
+  for (let i = 0; i < valid.length; i++) {
+    const point = valid[i];
+    const prev = points[points.length - 1];
+    const next = valid[i + 1];
+
+    if (prev && next) {
+      const jumpIn = Math.log(point.price / prev.price);
+      const jumpOut = Math.log(next.price / point.price);
+      const isSpike = Math.abs(jumpIn) > threshold &&
+        Math.abs(jumpOut) > threshold &&
+        Math.sign(jumpIn) !== Math.sign(jumpOut) &&
+        Math.abs(Math.log(next.price / prev.price)) < threshold / 2;
+
+      if (isSpike) {
+        const pct = (Math.exp(jumpIn) - 1) * 100;
+        report('jump', point.timestamp, `${formatDate(point.timestamp)} ${pct >= 0 ? '+' : ''}${pct.toFixed(0)}% and back`);
+
+        if (config.jumpPolicy === 'drop') continue;
+        if (config.jumpPolicy === 'forwardFill') {
+          points.push({ ...point, price: prev.price, open: prev.price, high: prev.price, low: prev.price });
+        } else {
+          points.push({ ...point, qualityFlag: 'jump' });
+        }
+        continue;
+      }
+    }
+    points.push(point);
+  }
+
+  // Gaps
+  const tradingWeekdays = detectTradingWeekdays(points);
+  for (let i = 1; i < points.length; i++) {
+    const missing = missingSessionsBetween(points[i - 1].timestamp, points[i].timestamp, interval, tradingWeekdays);
+    if (missing >= MIN_MISSING_SESSIONS) {
+      report('missingSession', points[i].timestamp, `${missing} sessions missing before ${formatDate(points[i].timestamp)}`, missing);
+      if (!points[i].qualityFlag) {
+        points[i] = { ...points[i], qualityFlag: 'missingSession' };
+      }
+    }
+  }
+
+  return {
+    points,
+    report: { inputCount: priceData.length, outputCount: points.length, counts, issues },
+  };
+}
+
+/**
+ * Clean one live bar against the bar before it, with the same policies as
+ * cleanPriceData. A spike can't be confirmed without the next bar, so any
+ * jump beyond the threshold counts. Returns null when the bar is dropped.
+ */
+export function cleanLiveBar(
+  bar: PricePoint,
+  prev: PricePoint | undefined,
+  config: DataQualityConfig
+): PricePoint | null {
+  if (!isGoodPrice(bar.price)) {
+    if (config.badPricePolicy === 'drop' || !prev) return null;
+    return {
+      ...bar,
+      price: prev.price,
+      open: prev.price,
+      high: prev.price,
+      low: prev.price,
+      ...(config.badPricePolicy === 'flag' && { qualityFlag: Number.isFinite(bar.price) ? 'nonPositive' : 'invalid' }),
+    };
+  }
+
+  const point = {
+    ...bar,
+    open: isGoodPrice(bar.open) ? bar.open : undefined,
+    high: isGoodPrice(bar.high) ? bar.high : undefined,
+    low: isGoodPrice(bar.low) ? bar.low : undefined,
+  };
+  if (!prev || Math.abs(Math.log(point.price / prev.price)) <= Math.log(1 + config.jumpThreshold)) {
+    return point;
+  }
+
+  if (config.jumpPolicy === 'drop') return null;
+  if (config.jumpPolicy === 'forwardFill') {
+    return { ...point, price: prev.price, open: prev.price, high: prev.price, low: prev.price };
+  }
+  return { ...point, qualityFlag: 'jump' };
+}
+
+/**
+ * Total number of issues in a report
+ */
+export function countIssues(report: QualityReport): number {
+  return Object.values(report.counts).reduce((sum, count) => sum + count, 0);
+}
@@ -0,0 +1,88 @@
+import { PricePoint, PriceInterval } from '@/types';
+import { isIntradayInterval } from './intervals';
+
+/**
+ * Key identifying the bar a timestamp belongs to.
+ *
+ * Providers stamp the same session differently (crypto at 00:00 UTC,
+ * equities at the exchange open), so daily and longer bars are matched by
+ * UTC calendar day, week or month rather than by exact time.
+ */
+function barKey(timestamp: Date, interval: PriceInterval): string {
+  if (isIntradayInterval(interval)) {
+    return String(timestamp.getTime());
+  }
+
+  const day = timestamp.toISOString().split('T')[0];
+  if (interval === '1wk') {
+    // Monday of the week
+    const monday = new Date(Date.UTC(
+      timestamp.getUTCFullYear(),
+      timestamp.getUTCMonth(),
+      timestamp.getUTCDate() - ((timestamp.getUTCDay() + 6) % 7)
+    ));
+    return monday.toISOString().split('T')[0];
+  }
+  if (interval === '1mo') {
+    return day.slice(0, 7);
+  }
+  return day;
+}
+
+/**
+ * Pair up bars of two series that fall on the same session.
+ *
+ * Only sessions both series traded are kept, so a 24/7 crypto series paired
+ * with an equity loses its weekends and holidays. If a series has several bars
+ * for one key, the last one wins.
+ */
+export function alignSeries(
+  a: PricePoint[],
+  b: PricePoint[],
+  interval: PriceInterval
+): [PricePoint, PricePoint][] {
+  const byKey = new Map<string, PricePoint>();
+  for (const point of b) {
+    byKey.set(barKey(point.timestamp, interval), point);
+  }
+
+  const lastOfA = new Map<string, PricePoint>();
+  for (const point of a) {
+    lastOfA.set(barKey(point.timestamp, interval), point);
+  }
+
+  const pairs: [PricePoint, PricePoint][] = [];
+  for (const [key, point] of lastOfA) {
+    const other = byKey.get(key);
+    if (other) pairs.push([point, other]);
+  }
+  return pairs.sort((x, y) => x[0].timestamp.getTime() - y[0].timestamp.getTime());
+}
+
+/**
+ * Price `numerator` in units of `denominator` (e.g. BTC in gold).
+ *
+ * Both series should already be on the same price basis. The result carries
+ * no volume or corporate events; high/low span the open and close ratios,
+ * since intrabar extremes of the two legs need not coincide.
+ */
+export function calculateRatioSeries(
+  numerator: PricePoint[],
+  denominator: PricePoint[],
+  interval: PriceInterval
+): PricePoint[] {
+  return alignSeries(numerator, denominator, interval).flatMap(([num, den]): PricePoint[] => {
+    if (!(den.price > 0)) return [];
+
+    const price = num.price / den.price;
+    const open = num.open !== undefined && den.open ? num.open / den.open : price;
+    return [{
+      timestamp: num.timestamp,
+      price,
+      open,
+      high: Math.max(open, price),
+      low: Math.min(open, price),
+      qualityFlag: num.qualityFlag ?? den.qualityFlag,
+    }];
+  });
+}
@@ -0,0 +1,168 @@
+import { PricePoint, SpiralConfig } from '@/types';
+import { getCycleDays } from '@/lib/spiral/geometry';
+
+// Concrete bar size after resolving 'auto'
+export type ResampleBucket =
+  | { kind: 'native' }
+  | { kind: 'weekly' }
+  | { kind: 'monthly' }
+  | { kind: 'nDay'; days: number };
+
+// Auto mode keeps the finest resolution that stays under this many points
+const AUTO_MAX_POINTS = 1500;
+
+// ...but never so coarse that a cycle has fewer bars than this
+const AUTO_MIN_BARS_PER_CYCLE = 12;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Key of the bucket a timestamp falls in (UTC)
+ */
+function bucketKey(timestamp: Date, bucket: ResampleBucket, origin: number): number {
+  switch (bucket.kind) {
+    case 'weekly': {
+      // Monday of the week
+      const day = Math.floor(timestamp.getTime() / MS_PER_DAY);
+      return day - ((timestamp.getUTCDay() + 6) % 7);
+    }
+    case 'monthly':
+      return timestamp.getUTCFullYear() * 12 + timestamp.getUTCMonth();
+    case 'nDay':
+      return Math.floor((timestamp.getTime() - origin) / (bucket.days * MS_PER_DAY));
+    default:
+      return timestamp.getTime();
+  }
+}
+
+/**
+ * Merge consecutive bars into one: open of the first, close of the last,
+ * extreme high/low, summed volume and dividends, compounded splits.
+ * The bar is stamped with its last constituent so the spiral still ends
+ * on the latest bar.
+ */
+function aggregateBars(bars: PricePoint[]): PricePoint {
+  const first = bars[0];
+  const last = bars[bars.length - 1];
+
+  let high = -Infinity;
+  let low = Infinity;
+  let volume: number | undefined;
+  let dividend: number | undefined;
+  let split: number | undefined;
+
+  for (const bar of bars) {
+    high = Math.max(high, bar.high ?? bar.price);
+    low = Math.min(low, bar.low ?? bar.price);
+    if (bar.volume !== undefined) volume = (volume ?? 0) + bar.volume;
+    if (bar.dividend) dividend = (dividend ?? 0) + bar.dividend;
+    if (bar.split !== undefined && bar.split !== 1) split = (split ?? 1) * bar.split;
+  }
+
+  return {
+    timestamp: last.timestamp,
+    price: last.price,
+    open: first.open ?? first.price,
+    high,
+    low,
+    volume,
+    adjClose: last.adjClose,
+    dividend,
+    split,
+    qualityFlag: bars.find((bar) => bar.qualityFlag)?.qualityFlag,
+  };
+}
+
+/**
+ * Aggregate bars into weekly, monthly or N-day bars.
+ * Expects bars sorted oldest first; N-day buckets start at the first bar.
+ */
+export function resampleSeries(priceData: PricePoint[], bucket: ResampleBucket): PricePoint[] {
+  if (bucket.kind === 'native' || priceData.length === 0) return priceData;
+
+  const origin = priceData[0].timestamp.getTime();
+  const result: PricePoint[] = [];
+  let group: PricePoint[] = [];
+  let groupKey: number | null = null;
+
+  for (const point of priceData) {
+    const key = bucketKey(point.timestamp, bucket, origin);
+    if (groupKey !== null && key !== groupKey) {
+      result.push(aggregateBars(group));
+      group = [];
+    }
+    group.push(point);
+    groupKey = key;
+  }
+  if (group.length > 0) result.push(aggregateBars(group));
+
+  return result;
+}
+
+/**
+ * Length of a bucket in days, for the native bars the median spacing
+ */
+function bucketDays(bucket: ResampleBucket, priceData: PricePoint[]): number {
+  switch (bucket.kind) {
+    case 'weekly':
+      return 7;
+    case 'monthly':
+      return 30.44;
+    case 'nDay':
+      return bucket.days;
+    default: {
+      const gaps = priceData
+        .slice(1)
+        .map((point, i) => point.timestamp.getTime() - priceData[i].timestamp.getTime())
+        .sort((a, b) => a - b);
+      return gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] / MS_PER_DAY : 1;
+    }
+  }
+}
+
+/**
+ * Turn the configured resolution into a concrete bucket.
+ *
+ * Auto keeps native bars when there are few enough of them, otherwise the
+ * finest of weekly/monthly (coarser than the native bars) that gets under
+ * AUTO_MAX_POINTS, as long as each cycle still has AUTO_MIN_BARS_PER_CYCLE
+ * bars (so a weekly cycle is never drawn from weekly bars).
+ */
+export function resolveResolution(
+  priceData: PricePoint[],
+  config: Pick<SpiralConfig, 'resolution' | 'resolutionDays' | 'cycleDuration' | 'customDays' | 'cycleEvents'>
+): ResampleBucket {
+  switch (config.resolution) {
+    case 'native':
+    case 'weekly':
+    case 'monthly':
+      return { kind: config.resolution };
+    case 'nDay':
+      return { kind: 'nDay', days: Math.max(1, Math.round(config.resolutionDays)) };
+  }
+
+  if (priceData.length <= AUTO_MAX_POINTS) return { kind: 'native' };
+
+  const spanDays = (priceData[priceData.length - 1].timestamp.getTime() - priceData[0].timestamp.getTime()) / MS_PER_DAY;
+  const maxBucketDays = getCycleDays(config.cycleDuration, config.customDays, config.cycleEvents.dates) / AUTO_MIN_BARS_PER_CYCLE;
+  const nativeDays = bucketDays({ kind: 'native' }, priceData);
+
+  // Finest to coarsest; buckets no coarser than the native bars are skipped,
+  // so weekly data can still go monthly
+  let best: ResampleBucket = { kind: 'native' };
+  for (const candidate of [{ kind: 'weekly' }, { kind: 'monthly' }] as ResampleBucket[]) {
+    const days = bucketDays(candidate, priceData);
+    if (days > maxBucketDays) break;
+    if (days <= nativeDays) continue;
+    best = candidate;
+    if (spanDays / days <= AUTO_MAX_POINTS) break;
+  }
+  return best;
+}
+
+/**
+ * Human-readable name of a bucket, e.g. "weekly" or "3-day"
+ */
+export function describeBucket(bucket: ResampleBucket): string {
+  return bucket.kind === 'nDay' ? `${bucket.days}-day` : bucket.kind;
+}
@@ -0,0 +1,104 @@
+import { Asset } from '@/types';
+
+/**
+ * Bundled symbol list used when the provider has no search or is unreachable
+ */
+export const LOCAL_SYMBOLS: Asset[] = [
+  // Broad market ETFs
+  { symbol: 'SPY', name: 'SPDR S&P 500 ETF Trust', type: 'stock' },
+  { symbol: 'QQQ', name: 'Invesco QQQ Trust', type: 'stock' },
+  { symbol: 'DIA', name: 'SPDR Dow Jones Industrial Average ETF', type: 'stock' },
+  { symbol: 'IWM', name: 'iShares Russell 2000 ETF', type: 'stock' },
+  { symbol: 'VTI', name: 'Vanguard Total Stock Market ETF', type: 'stock' },
+  { symbol: 'EFA', name: 'iShares MSCI EAFE ETF', type: 'stock' },
+  { symbol: 'EEM', name: 'iShares MSCI Emerging Markets ETF', type: 'stock' },
+  { symbol: 'GLD', name: 'SPDR Gold Shares', type: 'commodity' },
+  { symbol: 'SLV', name: 'iShares Silver Trust', type: 'commodity' },
+
+  // Indices
+  { symbol: '^GSPC', name: 'S&P 500 Index', type: 'stock' },
+  { symbol: '^NDX', name: 'Nasdaq 100 Index', type: 'stock' },
+  { symbol: '^DJI', name: 'Dow Jones Industrial Average', type: 'stock' },
+  { symbol: '^VIX', name: 'CBOE Volatility Index', type: 'stock' },
+
+  // Large caps
+  { symbol: 'AAPL', name: 'Apple Inc.', type: 'stock' },
+  { symbol: 'MSFT', name: 'Microsoft Corp.', type: 'stock' },
+  { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'stock' },
+  { symbol: 'AMZN', name: 'Amazon.com Inc.', type: 'stock' },
+  { symbol: 'NVDA', name: 'NVIDIA Corp.', type: 'stock' },
+  { symbol: 'META', name: 'Meta Platforms Inc.', type: 'stock' },
+  { symbol: 'TSLA', name: 'Tesla Inc.', type: 'stock' },
+  { symbol: 'BRK-B', name: 'Berkshire Hathaway Inc. Class B', type: 'stock' },
+  { symbol: 'JPM', name: 'JPMorgan Chase & Co.', type: 'stock' },
+  { symbol: 'V', name: 'Visa Inc.', type: 'stock' },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', type: 'stock' },
+  { symbol: 'WMT', name: 'Walmart Inc.', type: 'stock' },
+  { symbol: 'XOM', name: 'Exxon Mobil Corp.', type: 'stock' },
+  { symbol: 'KO', name: 'The Coca-Cola Company', type: 'stock' },
+  { symbol: 'NFLX', name: 'Netflix Inc.', type: 'stock' },
+  { symbol: 'AMD', name: 'Advanced Micro Devices Inc.', type: 'stock' },
+  { symbol: 'INTC', name: 'Intel Corp.', type: 'stock' },
+
+  // Crypto
+  { symbol: 'BTC-USD', name: 'Bitcoin USD', type: 'crypto' },
+  { symbol: 'ETH-USD', name: 'Ethereum USD', type: 'crypto' },
+  { symbol: 'SOL-USD', name: 'Solana USD', type: 'crypto' },
+  { symbol: 'XRP-USD', name: 'XRP USD', type: 'crypto' },
+  { symbol: 'DOGE-USD', name: 'Dogecoin USD', type: 'crypto' },
+  { symbol: 'ADA-USD', name: 'Cardano USD', type: 'crypto' },
+
+  // Forex
+  { symbol: 'EURUSD=X', name: 'EUR/USD', type: 'forex' },
+  { symbol: 'GBPUSD=X', name: 'GBP/USD', type: 'forex' },
+  { symbol: 'USDJPY=X', name: 'USD/JPY', type: 'forex' },
+  { symbol: 'USDCHF=X', name: 'USD/CHF', type: 'forex' },
+  { symbol: 'AUDUSD=X', name: 'AUD/USD', type: 'forex' },
+  { symbol: 'DX-Y.NYB', name: 'US Dollar Index', type: 'forex' },
+
+  // Commodities
+  { symbol: 'GC=F', name: 'Gold Futures', type: 'commodity' },
+  { symbol: 'SI=F', name: 'Silver Futures', type: 'commodity' },
+  { symbol: 'CL=F', name: 'Crude Oil Futures', type: 'commodity' },
+  { symbol: 'NG=F', name: 'Natural Gas Futures', type: 'commodity' },
+  { symbol: 'HG=F', name: 'Copper Futures', type: 'commodity' },
+
+  // Bonds
+  { symbol: 'TLT', name: 'iShares 20+ Year Treasury Bond ETF', type: 'bond' },
+  { symbol: 'IEF', name: 'iShares 7-10 Year Treasury Bond ETF', type: 'bond' },
+  { symbol: 'AGG', name: 'iShares Core US Aggregate Bond ETF', type: 'bond' },
+  { symbol: '^TNX', name: 'US 10-Year Treasury Yield', type: 'bond' },
+  { symbol: 'ZN=F', name: '10-Year T-Note Futures', type: 'bond' },
+];
+
+/**
+ * Rank assets against a query: exact symbol, then symbol prefix,
+ * then name word prefix, then substring anywhere.
+ */
+export function rankSymbolMatches(assets: Asset[], query: string, limit: number = 10): Asset[] {
+  const q = query.trim().toUpperCase();
+  if (!q) return [];
+
+  const scored: { asset: Asset; score: number }[] = [];
+  for (const asset of assets) {
+    const symbol = asset.symbol.toUpperCase();
+    const name = asset.name.toUpperCase();
+
+    let score = 0;
+    if (symbol === q) score = 4;
+    else if (symbol.startsWith(q)) score = 3;
+    else if (name.split(/[\s/.,-]+/).some((word) => word.startsWith(q))) score = 2;
+    else if (symbol.includes(q) || name.includes(q)) score = 1;
+
+    if (score > 0) scored.push({ asset, score });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.asset.symbol.length - b.asset.symbol.length)
+    .slice(0, limit)
+    .map((s) => s.asset);
+}
+
+export function searchLocalSymbols(query: string, limit: number = 10): Asset[] {
+  return rankSymbolMatches(LOCAL_SYMBOLS, query, limit);
+}
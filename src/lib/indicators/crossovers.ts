@@ -0,0 +1,29 @@
+// golden = fast average crosses above the slow one, death = crosses below
+export type CrossoverType = 'golden' | 'death';
+
+export interface Crossover {
+  index: number; // First bar on the new side
+  type: CrossoverType;
+}
+
+/**
+ * Bars where `fast` moves from one side of `slow` to the other. Touching
+ * without crossing doesn't count; bars where either is NaN are skipped.
+ */
+export function findCrossovers(fast: number[], slow: number[]): Crossover[] {
+  const crossovers: Crossover[] = [];
+  let side = 0; // Sign of fast - slow at the last bar where they differed
+
+  for (let i = 0; i < Math.min(fast.length, slow.length); i++) {
+    const difference = fast[i] - slow[i];
+    if (isNaN(difference) || difference === 0) continue;
+
+    const current = Math.sign(difference);
+    if (side !== 0 && current !== side) {
+      crossovers.push({ index: i, type: current > 0 ? 'golden' : 'death' });
+    }
+    side = current;
+  }
+
+  return crossovers;
+}
@@ -0,0 +1,92 @@
+import { IndicatorConfig, IndicatorType, PricePoint } from '@/types';
+import { bollingerBands, ema, sma } from './movingAverages';
+import { Crossover, findCrossovers } from './crossovers';
+
+export { sma, ema, bollingerBands } from './movingAverages';
+export { findCrossovers } from './crossovers';
+export type { Crossover, CrossoverType } from './crossovers';
+
+export const INDICATOR_TYPE_LABELS: Record<IndicatorType, string> = {
+  sma: 'SMA',
+  ema: 'EMA',
+  bollinger: 'Bollinger',
+};
+
+// Colors handed to new indicators in turn
+const INDICATOR_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#c084fc', '#fb923c', '#2dd4bf'];
+
+// One value per bar of the series; NaN until the indicator has a full window
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  values: number[];
+  isBand: boolean; // Bollinger upper/lower, drawn fainter than center lines
+}
+
+export function indicatorLabel(indicator: IndicatorConfig): string {
+  const name = `${INDICATOR_TYPE_LABELS[indicator.type]} ${indicator.period}`;
+  return indicator.type === 'bollinger' ? `${name}, ${indicator.stdDevs}σ` : name;
+}
+
+/**
+ * A new indicator with default settings and the first color not already taken
+ */
+export function createIndicator(type: IndicatorType, existing: IndicatorConfig[]): IndicatorConfig {
+  const used = new Set(existing.map((indicator) => indicator.color));
+  return {
+    id: `${type}-${Date.now().toString(36)}`,
+    type,
+    period: type === 'bollinger' ? 20 : 50,
+    stdDevs: 2,
+    color: INDICATOR_COLORS.find((color) => !used.has(color)) ?? INDICATOR_COLORS[existing.length % INDICATOR_COLORS.length],
+    visible: true,
+  };
+}
+
+/**
+ * Lines an indicator draws over a series' closes
+ */
+export function calculateIndicatorLines(priceData: PricePoint[], indicator: IndicatorConfig): IndicatorLine[] {
+  const closes = priceData.map((p) => p.price);
+  const label = indicatorLabel(indicator);
+
+  switch (indicator.type) {
+    case 'sma':
+      return [{ key: indicator.id, label, values: sma(closes, indicator.period), isBand: false }];
+    case 'ema':
+      return [{ key: indicator.id, label, values: ema(closes, indicator.period), isBand: false }];
+    case 'bollinger': {
+      const { middle, upper, lower } = bollingerBands(closes, indicator.period, indicator.stdDevs);
+      return [
+        { key: `${indicator.id}-middle`, label, values: middle, isBand: false },
+        { key: `${indicator.id}-upper`, label: `${label} upper`, values: upper, isBand: true },
+        { key: `${indicator.id}-lower`, label: `${label} lower`, values: lower, isBand: true },
+      ];
+    }
+  }
+}
+
+/**
+ * Golden and death crosses between the fastest and slowest visible moving
+ * averages (SMA or EMA), with the pair's label, or null with fewer than two
+ */
+export function findMovingAverageCrossovers(
+  priceData: PricePoint[],
+  indicators: IndicatorConfig[]
+): { crossovers: Crossover[]; label: string } | null {
+  const averages = indicators
+    .filter((indicator) => indicator.visible && indicator.type !== 'bollinger')
+    .sort((a, b) => a.period - b.period);
+  if (averages.length < 2) return null;
+
+  const fast = averages[0];
+  const slow = averages[averages.length - 1];
+  if (fast.period === slow.period && fast.type === slow.type) return null;
+
+  const [fastLine] = calculateIndicatorLines(priceData, fast);
+  const [slowLine] = calculateIndicatorLines(priceData, slow);
+  return {
+    crossovers: findCrossovers(fastLine.values, slowLine.values),
+    label: `${indicatorLabel(fast)} / ${indicatorLabel(slow)}`,
+  };
+}
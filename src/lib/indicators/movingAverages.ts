@@ -0,0 +1,58 @@
+/**
+ * Moving averages and bands over a value series. Outputs line up with the
+ * input; entries before the first full window are NaN.
+ */
+
+export function sma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average seeded with the SMA of the first window
+ */
+export function ema(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (values.length < period) return result;
+
+  const alpha = 2 / (period + 1);
+  let average = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  result[period - 1] = average;
+  for (let i = period; i < values.length; i++) {
+    average = alpha * values[i] + (1 - alpha) * average;
+    result[i] = average;
+  }
+  return result;
+}
+
+/**
+ * Bollinger bands: SMA middle line with bands `stdDevs` population standard
+ * deviations of the same window above and below
+ */
+export function bollingerBands(
+  values: number[],
+  period: number,
+  stdDevs: number
+): { middle: number[]; upper: number[]; lower: number[] } {
+  const middle = sma(values, period);
+  const upper: number[] = new Array(values.length).fill(NaN);
+  const lower: number[] = new Array(values.length).fill(NaN);
+
+  for (let i = period - 1; i < values.length; i++) {
+    let variance = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += (values[j] - middle[i]) ** 2;
+    }
+    const deviation = Math.sqrt(variance / period) * stdDevs;
+    upper[i] = middle[i] + deviation;
+    lower[i] = middle[i] - deviation;
+  }
+
+  return { middle, upper, lower };
+}
@@ -0,0 +1,38 @@
+import { PriceProvider } from '@/lib/providers';
+import { LiveSource } from './types';
+import { createSimulatedSource } from './simulated';
+import { createPollingSource } from './polling';
+
+export type { LiveSource, LiveUpdate, LiveSubscription } from './types';
+
+export const LIVE_SOURCE_NAMES = ['provider', 'simulated'] as const;
+
+export type LiveSourceName = (typeof LIVE_SOURCE_NAMES)[number];
+
+export function isLiveSourceName(name: string): name is LiveSourceName {
+  return (LIVE_SOURCE_NAMES as readonly string[]).includes(name);
+}
+
+// Polling sources are reused across requests so streams share their pollers
+const pollingSources = new Map<string, LiveSource>();
+
+/**
+ * Resolve a live source by name.
+ * Falls back to the PRICE_STREAM_SOURCE env var, then polls the given
+ * provider; the fixture provider has nothing new to poll, so it gets the
+ * simulated source. Returns null for an unknown source name.
+ */
+export function getLiveSource(name: string | null, provider: PriceProvider): LiveSource | null {
+  const fallback = provider.name === 'fixture' ? 'simulated' : 'provider';
+  const resolved = (name || process.env.PRICE_STREAM_SOURCE || fallback).toLowerCase();
+  if (!isLiveSourceName(resolved)) return null;
+
+  if (resolved === 'simulated') return createSimulatedSource();
+
+  let polling = pollingSources.get(provider.name);
+  if (!polling) {
+    polling = createPollingSource(provider);
+    pollingSources.set(provider.name, polling);
+  }
+  return polling;
+}
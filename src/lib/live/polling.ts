@@ -0,0 +1,101 @@
+import { PriceProvider } from '@/lib/providers';
+import { HistoricalQuote, PriceInterval } from '@/types';
+import { intervalLengthMs, isIntradayInterval } from '@/lib/data/intervals';
+import { LiveSource } from './types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// How often to ask the provider for the latest bars
+const INTRADAY_POLL_MS = 15 * 1000;
+const DAILY_POLL_MS = 60 * 1000;
+
+interface Subscriber {
+  deliver: (quotes: HistoricalQuote[]) => void;
+  onError: (error: unknown) => void;
+}
+
+// One upstream poll loop for a symbol and interval
+interface Poller {
+  subscribers: Set<Subscriber>;
+  latest: HistoricalQuote[] | null; // Last poll's bars, for late joiners
+  stop: () => void;
+}
+
+/**
+ * Live source that polls a price provider for the most recent bars.
+ *
+ * Subscribers to the same symbol and interval share one poll loop, so the
+ * provider sees one request per poll however many clients watch. Bars newer
+ * than the last one a subscriber has go out as `bar`, a changed close on its
+ * last bar as `tick`. Providers without real-time data simply stay quiet.
+ */
+export function createPollingSource(provider: PriceProvider, pollMs?: number): LiveSource {
+  const pollers = new Map<string, Poller>();
+
+  const startPoller = (symbol: string, interval: PriceInterval): Poller => {
+    // A few bars back is enough to catch up after a missed poll
+    const lookbackMs = Math.max(3 * intervalLengthMs(interval), MS_PER_DAY);
+    const poller: Poller = { subscribers: new Set(), latest: null, stop: () => {} };
+
+    const poll = async () => {
+      try {
+        const now = new Date();
+        const { quotes } = await provider.fetchHistory({
+          symbol,
+          period1: new Date(now.getTime() - lookbackMs),
+          period2: now,
+          interval,
+        });
+        poller.latest = quotes;
+        poller.subscribers.forEach((subscriber) => subscriber.deliver(quotes));
+      } catch (error) {
+        poller.subscribers.forEach((subscriber) => subscriber.onError(error));
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, pollMs ?? (isIntradayInterval(interval) ? INTRADAY_POLL_MS : DAILY_POLL_MS));
+    poller.stop = () => clearInterval(timer);
+    return poller;
+  };
+
+  return {
+    name: 'provider',
+    subscribe: ({ symbol, interval, last }, onUpdate, onError) => {
+      let lastTimestamp = last?.timestamp.getTime() ?? 0;
+      let lastClose = last?.price;
+
+      const subscriber: Subscriber = {
+        deliver: (quotes) => {
+          for (const quote of quotes) {
+            const time = quote.date.getTime();
+            if (time > lastTimestamp) {
+              onUpdate({ type: 'bar', quote });
+            } else if (time === lastTimestamp && quote.close !== lastClose) {
+              onUpdate({ type: 'tick', quote });
+            } else {
+              continue;
+            }
+            lastTimestamp = time;
+            lastClose = quote.close;
+          }
+        },
+        onError,
+      };
+
+      const key = `${symbol.toUpperCase()}|${interval}`;
+      const poller = pollers.get(key) ?? startPoller(symbol, interval);
+      pollers.set(key, poller);
+      poller.subscribers.add(subscriber);
+      if (poller.latest) subscriber.deliver(poller.latest);
+
+      return () => {
+        poller.subscribers.delete(subscriber);
+        if (poller.subscribers.size === 0 && pollers.get(key) === poller) {
+          poller.stop();
+          pollers.delete(key);
+        }
+      };
+    },
+  };
+}
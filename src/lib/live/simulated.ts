@@ -0,0 +1,66 @@
+import { HistoricalQuote } from '@/types';
+import { intervalLengthMs } from '@/lib/data/intervals';
+import { LiveSource } from './types';
+
+interface SimulatedSourceOptions {
+  tickMs?: number; // Time between ticks
+  ticksPerBar?: number; // Ticks before the next bar opens
+  volatility?: number; // Standard deviation of the log return per tick
+}
+
+// Starting price when the client has no bars yet
+const DEFAULT_PRICE = 100;
+
+// Standard normal sample (Box-Muller)
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Random-walk price source for development and demos.
+ *
+ * Continues from the client's last bar and compresses time: a new bar opens
+ * every `ticksPerBar` ticks, stamped one interval after the previous one,
+ * so a daily spiral visibly grows within seconds.
+ */
+export function createSimulatedSource({
+  tickMs = 1000,
+  ticksPerBar = 5,
+  volatility = 0.004,
+}: SimulatedSourceOptions = {}): LiveSource {
+  return {
+    name: 'simulated',
+    subscribe: ({ interval, last }, onUpdate) => {
+      const barMs = intervalLengthMs(interval);
+      let price = last?.price ?? DEFAULT_PRICE;
+      let timestamp = last?.timestamp.getTime() ?? Date.now() - barMs;
+      let quote: HistoricalQuote | null = null;
+      let ticks = 0;
+
+      const timer = setInterval(() => {
+        const opensBar = !quote || ticks >= ticksPerBar;
+        if (opensBar) {
+          timestamp += barMs;
+          quote = { date: new Date(timestamp), open: price, high: price, low: price, close: price, volume: 0 };
+          ticks = 0;
+        }
+
+        price *= Math.exp(volatility * gaussian());
+        quote = {
+          ...quote!,
+          close: price,
+          high: Math.max(quote!.high, price),
+          low: Math.min(quote!.low, price),
+          volume: quote!.volume + Math.round(Math.random() * 1000),
+        };
+        ticks++;
+
+        onUpdate({ type: opensBar ? 'bar' : 'tick', quote });
+      }, tickMs);
+
+      return () => clearInterval(timer);
+    },
+  };
+}
@@ -0,0 +1,30 @@
+import { HistoricalQuote, PriceInterval } from '@/types';
+
+/**
+ * A change to the latest bar: `bar` when a new bar opens,
+ * `tick` when the last price of the current bar moves
+ */
+export interface LiveUpdate {
+  type: 'bar' | 'tick';
+  quote: HistoricalQuote;
+}
+
+export interface LiveSubscription {
+  symbol: string;
+  interval: PriceInterval;
+  // Latest bar the client already has; updates continue from there
+  last?: { timestamp: Date; price: number };
+}
+
+/**
+ * A source of live price updates for one symbol at a time.
+ * `subscribe` starts pushing updates and returns a function that stops them.
+ */
+export interface LiveSource {
+  name: string;
+  subscribe: (
+    subscription: LiveSubscription,
+    onUpdate: (update: LiveUpdate) => void,
+    onError: (error: unknown) => void
+  ) => () => void;
+}
@@ -0,0 +1,62 @@
+import { PriceErrorCode, PriceErrorDetails } from '@/types';
+
+/**
+ * A price request failure with a code the API and client can act on.
+ * The message is safe to show users; the upstream error, if any, is `cause`.
+ */
+export class PriceDataError extends Error {
+  readonly code: PriceErrorCode;
+  readonly details: PriceErrorDetails;
+  readonly cause?: unknown;
+
+  constructor(code: PriceErrorCode, message: string, details: PriceErrorDetails = {}, cause?: unknown) {
+    super(message);
+    this.name = 'PriceDataError';
+    this.code = code;
+    this.details = details;
+    this.cause = cause;
+  }
+}
+
+export const PRICE_ERROR_STATUS: Record<PriceErrorCode, number> = {
+  BAD_REQUEST: 400,
+  BAD_DATE: 400,
+  INVALID_RANGE: 400,
+  UNKNOWN_SYMBOL: 404,
+  EMPTY_RANGE: 404,
+  UPSTREAM_TIMEOUT: 504,
+  RATE_LIMITED: 429,
+  UPSTREAM_ERROR: 502,
+};
+
+// Failures that may succeed when simply tried again
+const RETRYABLE_CODES: PriceErrorCode[] = ['UPSTREAM_TIMEOUT', 'RATE_LIMITED', 'UPSTREAM_ERROR'];
+
+export function isRetryableCode(code: PriceErrorCode): boolean {
+  return RETRYABLE_CODES.includes(code);
+}
+
+/**
+ * Normalize anything a provider threw; unrecognized failures become
+ * UPSTREAM_ERROR so their messages never reach the client
+ */
+export function toPriceDataError(error: unknown): PriceDataError {
+  if (error instanceof PriceDataError) return error;
+  return new PriceDataError('UPSTREAM_ERROR', 'The price provider request failed', {}, error);
+}
+
+/**
+ * JSON body and status of an error response
+ */
+export function toErrorResponse(error: unknown): { body: { error: string; code: PriceErrorCode; details?: PriceErrorDetails }; status: number } {
+  const priceError = toPriceDataError(error);
+  const hasDetails = Object.keys(priceError.details).length > 0;
+  return {
+    body: {
+      error: priceError.message,
+      code: priceError.code,
+      ...(hasDetails && { details: priceError.details }),
+    },
+    status: PRICE_ERROR_STATUS[priceError.code],
+  };
+}
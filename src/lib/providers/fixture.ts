@@ -0,0 +1,215 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { HistoricalQuote, CorporateEvents } from '@/types';
+import { parseCsv } from '@/lib/data/csv';
+import { symbolToFileName } from '@/lib/data/files';
+import { rankSymbolMatches } from '@/lib/data/symbolList';
+import { PRICE_INTERVALS } from '@/lib/data/intervals';
+import { PriceProvider } from './types';
+import { PriceDataError } from './errors';
+
+// Default location of fixture files, relative to the project root
+export const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'prices');
+
+type FixtureRecord = Record<string, unknown>;
+
+interface Fixture {
+  records: FixtureRecord[];
+  events: CorporateEvents;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const num = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+  return isNaN(num) ? undefined : num;
+}
+
+function lowercaseKeys(record: FixtureRecord): FixtureRecord {
+  const lower: FixtureRecord = {};
+  for (const [key, value] of Object.entries(record)) {
+    lower[key.toLowerCase().replace(/[\s_]/g, '')] = value;
+  }
+  return lower;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value === undefined || value === null) return null;
+  const date = typeof value === 'number' ? new Date(value) : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Normalize a fixture row into a HistoricalQuote.
+ * Accepts Yahoo-style keys (Date, Close, Adj Close) as well as the
+ * /api/prices response shape (timestamp, price).
+ */
+function recordToQuote(record: FixtureRecord): HistoricalQuote | null {
+  const lower = lowercaseKeys(record);
+
+  const date = toDate(lower.date ?? lower.timestamp);
+  if (!date) return null;
+
+  const close = toNumber(lower.close ?? lower.price);
+  if (close === undefined) return null;
+
+  return {
+    date,
+    open: toNumber(lower.open) ?? close,
+    high: toNumber(lower.high) ?? close,
+    low: toNumber(lower.low) ?? close,
+    close,
+    volume: toNumber(lower.volume) ?? 0,
+    adjClose: toNumber(lower.adjclose),
+  };
+}
+
+/**
+ * Collect dividends and splits from per-row "Dividends" / "Stock Splits"
+ * columns (yfinance export style, split given as a ratio such as 4)
+ */
+function eventsFromRecords(records: FixtureRecord[]): CorporateEvents {
+  const events: CorporateEvents = { dividends: [], splits: [] };
+
+  for (const record of records) {
+    const lower = lowercaseKeys(record);
+    const date = toDate(lower.date ?? lower.timestamp);
+    if (!date) continue;
+
+    const dividend = toNumber(lower.dividends ?? lower.dividend);
+    if (dividend) {
+      events.dividends.push({ date, amount: dividend });
+    }
+    const split = toNumber(lower.stocksplits ?? lower.split);
+    if (split && split !== 1) {
+      events.splits.push({ date, numerator: split, denominator: 1 });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Read events from a JSON fixture's `events` object
+ */
+function parseJsonEvents(raw: unknown): CorporateEvents {
+  const events: CorporateEvents = { dividends: [], splits: [] };
+  if (!raw || typeof raw !== 'object') return events;
+  const { dividends, splits } = raw as { dividends?: unknown; splits?: unknown };
+
+  for (const item of Array.isArray(dividends) ? dividends : []) {
+    const date = toDate(item?.date);
+    const amount = toNumber(item?.amount);
+    if (date && amount !== undefined) events.dividends.push({ date, amount });
+  }
+  for (const item of Array.isArray(splits) ? splits : []) {
+    const date = toDate(item?.date);
+    const numerator = toNumber(item?.numerator);
+    const denominator = toNumber(item?.denominator) ?? 1;
+    if (date && numerator !== undefined) events.splits.push({ date, numerator, denominator });
+  }
+
+  return events;
+}
+
+function parseCsvFixture(text: string): Fixture {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return { records: [], events: { dividends: [], splits: [] } };
+
+  const records = rows.map((row) => {
+    const record: FixtureRecord = {};
+    header.forEach((column, i) => {
+      record[column.trim()] = row[i]?.trim();
+    });
+    return record;
+  });
+
+  return { records, events: eventsFromRecords(records) };
+}
+
+function parseJsonFixture(text: string): Fixture {
+  const parsed = JSON.parse(text);
+  // Either a bare array of rows or an /api/prices style { data: [...], events } payload
+  const rows = Array.isArray(parsed) ? parsed : parsed?.data;
+  const records: FixtureRecord[] = Array.isArray(rows) ? rows : [];
+  const events = Array.isArray(parsed) ? eventsFromRecords(records) : parseJsonEvents(parsed?.events);
+  return { records, events };
+}
+
+async function readFixture(dir: string, baseName: string): Promise<Fixture | null> {
+  for (const ext of ['json', 'csv']) {
+    const filePath = path.join(dir, `${baseName}.${ext}`);
+    let text: string;
+    try {
+      text = await fs.readFile(filePath, 'utf8');
+    } catch {
+      continue;
+    }
+    return ext === 'json' ? parseJsonFixture(text) : parseCsvFixture(text);
+  }
+  return null;
+}
+
+/**
+ * Price provider that serves CSV/JSON fixtures from disk, for offline
+ * development, demos and tests.
+ *
+ * Looks up `<SYMBOL>_<interval>.{json,csv}` first, then `<SYMBOL>.{json,csv}`.
+ * The plain file holds daily bars, so it only serves `1d` requests.
+ */
+export function createFixtureProvider(
+  dir: string = process.env.PRICE_FIXTURES_DIR || DEFAULT_FIXTURES_DIR
+): PriceProvider {
+  return {
+    name: 'fixture',
+    fetchHistory: async ({ symbol, period1, period2, interval }) => {
+      const baseName = symbolToFileName(symbol);
+      const fixture =
+        (await readFixture(dir, `${baseName}_${interval}`)) ??
+        (interval === '1d' ? await readFixture(dir, baseName) : null);
+
+      if (!fixture) {
+        // A daily-only symbol has no bars at finer intervals
+        if (interval !== '1d' && (await readFixture(dir, baseName))) {
+          throw new PriceDataError('EMPTY_RANGE', `No ${interval} price fixture found for ${symbol}`, { symbol });
+        }
+        throw new PriceDataError('UNKNOWN_SYMBOL', `No price fixture found for ${symbol}`, { symbol });
+      }
+
+      const start = period1.getTime();
+      const end = period2.getTime();
+      const inRange = (date: Date) => date.getTime() >= start && date.getTime() <= end;
+      const byDate = (a: { date: Date }, b: { date: Date }) => a.date.getTime() - b.date.getTime();
+
+      return {
+        quotes: fixture.records
+          .map(recordToQuote)
+          .filter((quote): quote is HistoricalQuote => quote !== null)
+          .filter((quote) => inRange(quote.date))
+          .sort(byDate),
+        events: {
+          dividends: fixture.events.dividends.filter((d) => inRange(d.date)).sort(byDate),
+          splits: fixture.events.splits.filter((s) => inRange(s.date)).sort(byDate),
+        },
+      };
+    },
+
+    searchSymbols: async (query, limit) => {
+      const files = await fs.readdir(dir);
+      const intervalSuffix = new RegExp(`_(${PRICE_INTERVALS.join('|')})$`);
+
+      // One entry per fixture symbol, ignoring per-interval variants
+      const symbols = new Set(
+        files
+          .filter((file) => /\.(json|csv)$/i.test(file))
+          .map((file) => file.replace(/\.(json|csv)$/i, '').replace(intervalSuffix, ''))
+      );
+      const assets = [...symbols].map((symbol) => ({
+        symbol,
+        name: `${symbol} (fixture)`,
+        type: 'stock' as const,
+      }));
+
+      return rankSymbolMatches(assets, query, limit);
+    },
+  };
+}
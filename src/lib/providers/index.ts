@@ -0,0 +1,34 @@
+import { PriceProvider } from './types';
+import { createYahooProvider } from './yahoo';
+import { createFixtureProvider } from './fixture';
+import { withRetries } from './retry';
+
+export type { PriceProvider, HistoryQuery, PriceHistory } from './types';
+export { PriceDataError, toErrorResponse } from './errors';
+
+export const PROVIDER_NAMES = ['yahoo', 'fixture'] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export function isProviderName(name: string): name is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(name);
+}
+
+// Providers are created lazily and reused across requests
+const providers: Partial<Record<ProviderName, PriceProvider>> = {};
+
+/**
+ * Resolve a price provider by name.
+ * Falls back to the PRICE_PROVIDER env var, then to Yahoo.
+ * History fetches time out and retry transient failures.
+ * Returns null for an unknown provider name.
+ */
+export function getPriceProvider(name?: string | null): PriceProvider | null {
+  const resolved = (name || process.env.PRICE_PROVIDER || 'yahoo').toLowerCase();
+  if (!isProviderName(resolved)) return null;
+
+  if (!providers[resolved]) {
+    providers[resolved] = withRetries(resolved === 'fixture' ? createFixtureProvider() : createYahooProvider());
+  }
+  return providers[resolved];
+}
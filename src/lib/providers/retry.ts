@@ -0,0 +1,69 @@
+import { PriceProvider } from './types';
+import { PriceDataError, isRetryableCode, toPriceDataError } from './errors';
+
+interface RetryOptions {
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number; // Doubles per retry
+}
+
+// Longest wait we honor from a rate limiter before giving up instead
+const MAX_RETRY_AFTER_MS = 10 * 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new PriceDataError('UPSTREAM_TIMEOUT', `The price provider did not respond within ${timeoutMs / 1000}s`)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Wrap a provider so each history fetch times out, and timeouts, rate limits
+ * and other transient upstream failures are retried with exponential backoff.
+ * Symbol searches time out the same way but aren't retried. Errors come out
+ * as PriceDataError either way.
+ */
+export function withRetries(
+  provider: PriceProvider,
+  { timeoutMs = 15 * 1000, retries = 2, baseDelayMs = 500 }: RetryOptions = {}
+): PriceProvider {
+  const { searchSymbols } = provider;
+
+  return {
+    ...provider,
+    ...(searchSymbols && {
+      searchSymbols: async (query: string, limit: number) => {
+        try {
+          return await withTimeout(searchSymbols(query, limit), timeoutMs);
+        } catch (error) {
+          throw toPriceDataError(error);
+        }
+      },
+    }),
+    fetchHistory: async (query) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await withTimeout(provider.fetchHistory(query), timeoutMs);
+        } catch (error) {
+          const priceError = toPriceDataError(error);
+          if (!isRetryableCode(priceError.code) || attempt >= retries) throw priceError;
+
+          const retryAfterMs = (priceError.details.retryAfterSeconds ?? 0) * 1000;
+          if (retryAfterMs > MAX_RETRY_AFTER_MS) throw priceError;
+
+          const delay = Math.max(retryAfterMs, baseDelayMs * 2 ** attempt);
+          console.warn(`Retrying ${query.symbol} after ${priceError.code} (attempt ${attempt + 1} of ${retries})`);
+          await sleep(delay);
+        }
+      }
+    },
+  };
+}
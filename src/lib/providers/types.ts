@@ -0,0 +1,31 @@
+import { Asset, HistoricalQuote, CorporateEvents, PriceInterval } from '@/types';
+
+export interface HistoryQuery {
+  symbol: string;
+  period1: Date;
+  period2: Date;
+  interval: PriceInterval;
+}
+
+/**
+ * Bars plus the dividends and splits within the same range.
+ * OHLC, volume and dividend amounts are as traded (not split-adjusted);
+ * `adjClose` carries the provider's own adjusted close where available.
+ */
+export interface PriceHistory {
+  quotes: HistoricalQuote[];
+  events: CorporateEvents;
+}
+
+/**
+ * A source of historical price bars.
+ *
+ * Implementations return bars sorted oldest first, already restricted
+ * to the requested [period1, period2] range.
+ */
+export interface PriceProvider {
+  name: string;
+  fetchHistory: (query: HistoryQuery) => Promise<PriceHistory>;
+  // Symbol lookup by ticker or name; optional, callers fall back to the local list
+  searchSymbols?: (query: string, limit: number) => Promise<Asset[]>;
+}
@@ -0,0 +1,174 @@
+import YahooFinance from 'yahoo-finance2';
+import { AssetType, HistoricalQuote, SplitEvent } from '@/types';
+import { PriceProvider } from './types';
+import { PriceDataError } from './errors';
+
+function toSplitEvent(split: { date: Date; numerator: number; denominator: number }): SplitEvent {
+  return { date: split.date, numerator: split.numerator, denominator: split.denominator };
+}
+
+/**
+ * Cumulative ratio of all splits after `date`.
+ * Yahoo back-adjusts OHLC, volume and dividends for every split up to today,
+ * so multiplying by this factor recovers the as-traded value.
+ */
+function splitFactorAfter(date: Date, splits: SplitEvent[]): number {
+  return splits
+    .filter((split) => split.date.getTime() > date.getTime())
+    .reduce((factor, split) => factor * (split.numerator / split.denominator), 1);
+}
+
+/**
+ * Map a yahoo-finance2 failure to an error code. Unknown symbols come back
+ * as "No data found, symbol may be delisted", ranges before the first bar as
+ * a BadRequestError ("Data doesn't exist for startDate ..."), and rate
+ * limits as an HTTPError with code 429.
+ */
+function toPriceDataError(error: unknown, symbol: string): PriceDataError {
+  if (error instanceof PriceDataError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = (error as { code?: unknown } | null)?.code;
+
+  if (status === 429 || /too many requests/i.test(message)) {
+    return new PriceDataError('RATE_LIMITED', 'Yahoo Finance is rate limiting requests', { symbol }, error);
+  }
+  if (/data doesn't exist/i.test(message)) {
+    return new PriceDataError('EMPTY_RANGE', `No data for ${symbol} in this range`, { symbol }, error);
+  }
+  if (status === 404 || /no data found|delisted|not found/i.test(message)) {
+    return new PriceDataError('UNKNOWN_SYMBOL', `Unknown symbol ${symbol}`, { symbol }, error);
+  }
+  if (/timed? ?out|ETIMEDOUT|ECONNRESET/i.test(message)) {
+    return new PriceDataError('UPSTREAM_TIMEOUT', 'Yahoo Finance timed out', { symbol }, error);
+  }
+  return new PriceDataError('UPSTREAM_ERROR', 'Yahoo Finance request failed', { symbol }, error);
+}
+
+// How long a symbol's split history is reused before asking Yahoo again
+const SPLIT_HISTORY_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Yahoo quote types we can chart, mapped to our asset types
+const QUOTE_TYPE_TO_ASSET_TYPE: Record<string, AssetType> = {
+  EQUITY: 'stock',
+  ETF: 'stock',
+  MUTUALFUND: 'stock',
+  INDEX: 'stock',
+  CRYPTOCURRENCY: 'crypto',
+  CURRENCY: 'forex',
+  FUTURE: 'commodity',
+};
+
+/**
+ * Price provider backed by the Yahoo Finance API
+ *
+ * Uses the chart endpoint, which serves both daily and intraday bars
+ * along with dividend and split events.
+ */
+export function createYahooProvider(): PriceProvider {
+  const yahooFinance = new YahooFinance();
+
+  // Every split of a symbol, so any range can be un-adjusted without a
+  // second chart call per request. Pending lookups are shared.
+  const splitHistory = new Map<string, { fetchedAt: number; splits: Promise<SplitEvent[]> }>();
+
+  const fetchSplitHistory = (symbol: string): Promise<SplitEvent[]> => {
+    const key = symbol.toUpperCase();
+    const cached = splitHistory.get(key);
+    if (cached && Date.now() - cached.fetchedAt < SPLIT_HISTORY_TTL_MS) return cached.splits;
+
+    const splits = yahooFinance
+      .chart(symbol, {
+        period1: new Date(0),
+        period2: new Date(),
+        interval: '1mo',
+        events: 'split',
+        return: 'array',
+      })
+      .then((result) => (result.events?.splits ?? []).map(toSplitEvent));
+    splitHistory.set(key, { fetchedAt: Date.now(), splits });
+    // Failed lookups are retried on the next request, unless a newer one has
+    // already taken their place
+    splits.catch(() => {
+      if (splitHistory.get(key)?.splits === splits) splitHistory.delete(key);
+    });
+    return splits;
+  };
+
+  const fetchHistory: PriceProvider['fetchHistory'] = async ({ symbol, period1, period2, interval }) => {
+    const result = await yahooFinance.chart(symbol, {
+      period1,
+      period2,
+      interval,
+      events: 'div|split',
+      return: 'array',
+    });
+
+    const dividends = (result.events?.dividends ?? []).map((d) => ({ date: d.date, amount: d.amount }));
+    const splits = (result.events?.splits ?? [])
+      .map(toSplitEvent)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    // Yahoo adjusts for every split up to today, so factors come from the
+    // full split history; the window's own splits fill in a stale lookup
+    const history = await fetchSplitHistory(symbol);
+    const allSplits = [
+      ...history,
+      ...splits.filter((split) => !history.some((s) => s.date.getTime() === split.date.getTime())),
+    ];
+
+    // Bars without a close (e.g. the in-progress bar) are dropped
+    const quotes = result.quotes.flatMap((quote): HistoricalQuote[] => {
+      const close = quote.close;
+      if (close === null) return [];
+
+      const factor = splitFactorAfter(quote.date, allSplits);
+      return [{
+        date: quote.date,
+        open: (quote.open ?? close) * factor,
+        high: (quote.high ?? close) * factor,
+        low: (quote.low ?? close) * factor,
+        close: close * factor,
+        volume: (quote.volume ?? 0) / factor,
+        adjClose: quote.adjclose ?? undefined,
+      }];
+    });
+
+    return {
+      quotes,
+      events: {
+        dividends: dividends
+          .map((d) => ({ ...d, amount: d.amount * splitFactorAfter(d.date, allSplits) }))
+          .sort((a, b) => a.date.getTime() - b.date.getTime()),
+        splits,
+      },
+    };
+  };
+
+  return {
+    name: 'yahoo',
+    fetchHistory: async (query) => {
+      try {
+        return await fetchHistory(query);
+      } catch (error) {
+        throw toPriceDataError(error, query.symbol);
+      }
+    },
+
+    searchSymbols: async (query, limit) => {
+      const result = await yahooFinance.search(query, { quotesCount: limit, newsCount: 0 });
+
+      return result.quotes.flatMap((quote) => {
+        if (!quote.isYahooFinance) return [];
+        const type = QUOTE_TYPE_TO_ASSET_TYPE[String(quote.quoteType)];
+        if (!type) return [];
+
+        return [{
+          symbol: quote.symbol,
+          name: quote.longname || quote.shortname || quote.symbol,
+          type,
+        }];
+      });
+    },
+  };
+}
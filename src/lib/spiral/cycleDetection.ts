@@ -0,0 +1,122 @@
+import { PricePoint, SpiralConfig } from '@/types';
+import { timeSpan } from './geometry';
+
+export interface DetectedCycle {
+  length: number; // Days, or sessions on the sessions basis
+  strength: number; // Share of the de-meaned log returns' variance a sine of this period explains, 0-1
+  repetitions: number; // Full cycles of this length in the data
+}
+
+// Shortest period considered, in bars
+const MIN_PERIOD_BARS = 4;
+
+// Longest period considered is the one that fits this many times in the data
+const MIN_REPETITIONS = 3;
+
+// Ratio between neighbouring candidate periods
+const PERIOD_STEP = 1.02;
+
+// Suggested periods differ by at least this ratio
+const MIN_SEPARATION = 1.15;
+
+// Longer series are thinned to this many bars to keep the scan quick
+const MAX_BARS = 4000;
+
+/**
+ * Log returns with their mean (the drift) removed. Returns have a flat
+ * spectrum under a random walk, unlike the log price, whose spectrum piles
+ * up at the longest periods and would suggest spurious long cycles.
+ */
+export function demeanedLogReturns(prices: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    const r = Math.log(prices[i] / prices[i - 1]);
+    returns.push(isFinite(r) ? r : 0);
+  }
+  if (returns.length === 0) return [];
+
+  const drift = returns.reduce((a, b) => a + b, 0) / returns.length;
+  return returns.map((r) => r - drift);
+}
+
+/**
+ * Least-squares fit of a sine of `period` bars to a zero-mean series.
+ * Returns the share of the series' variance the fit explains.
+ */
+export function periodStrength(values: number[], period: number): number {
+  let scc = 0, sss = 0, scs = 0, sxc = 0, sxs = 0, sxx = 0;
+  const omega = (2 * Math.PI) / period;
+  for (let t = 0; t < values.length; t++) {
+    const c = Math.cos(omega * t);
+    const s = Math.sin(omega * t);
+    scc += c * c;
+    sss += s * s;
+    scs += c * s;
+    sxc += values[t] * c;
+    sxs += values[t] * s;
+    sxx += values[t] * values[t];
+  }
+
+  const determinant = scc * sss - scs * scs;
+  if (sxx === 0 || determinant <= 0) return 0;
+  const a = (sxc * sss - sxs * scs) / determinant;
+  const b = (sxs * scc - sxc * scs) / determinant;
+  return Math.min(1, Math.max(0, (a * sxc + b * sxs) / sxx));
+}
+
+/**
+ * Strongest periods of a zero-mean series, in bars: peaks of the
+ * periodogram over a log-spaced grid, strongest first
+ */
+export function findDominantPeriods(values: number[], count: number): { period: number; strength: number }[] {
+  const maxPeriod = values.length / MIN_REPETITIONS;
+  const periods: number[] = [];
+  for (let period = MIN_PERIOD_BARS; period <= maxPeriod; period *= PERIOD_STEP) periods.push(period);
+  if (periods.length < 3) return [];
+
+  const strengths = periods.map((period) => periodStrength(values, period));
+
+  // Local maxima only; the ends of the grid are never peaks
+  const peaks: { period: number; strength: number }[] = [];
+  for (let i = 1; i < periods.length - 1; i++) {
+    if (strengths[i] > 0 && strengths[i] >= strengths[i - 1] && strengths[i] > strengths[i + 1]) {
+      peaks.push({ period: periods[i], strength: strengths[i] });
+    }
+  }
+
+  const chosen: { period: number; strength: number }[] = [];
+  for (const peak of peaks.sort((a, b) => b.strength - a.strength)) {
+    const tooClose = chosen.some(
+      ({ period }) => Math.max(period, peak.period) / Math.min(period, peak.period) < MIN_SEPARATION
+    );
+    if (!tooClose) chosen.push(peak);
+    if (chosen.length === count) break;
+  }
+  return chosen;
+}
+
+/**
+ * Dominant cycle lengths in a price series, in the units custom cycles use
+ * (days, or sessions on the sessions basis), strongest first
+ */
+export function detectDominantCycles(
+  priceData: PricePoint[],
+  config: Pick<SpiralConfig, 'timeBasis'>,
+  count = 3
+): DetectedCycle[] {
+  const stride = Math.ceil(priceData.length / MAX_BARS);
+  const prices = priceData.filter((_, i) => i % stride === 0).map((p) => p.price);
+  if (prices.length < MIN_PERIOD_BARS * MIN_REPETITIONS) return [];
+
+  const span = timeSpan(priceData, config);
+  const unitsPerBar = (span / (priceData.length - 1)) * stride;
+
+  // Short periods on coarse bars can round to the same length
+  const cycles: DetectedCycle[] = [];
+  for (const { period, strength } of findDominantPeriods(demeanedLogReturns(prices), count)) {
+    const length = Math.max(1, Math.round(period * unitsPerBar));
+    if (cycles.some((cycle) => cycle.length === length)) continue;
+    cycles.push({ length, strength, repetitions: Math.floor(prices.length / period) });
+  }
+  return cycles;
+}
@@ -0,0 +1,95 @@
+import { CycleEventSet } from '@/types';
+import { parseCsv } from '@/lib/data/csv';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const utc = (date: string) => new Date(`${date}T00:00:00Z`);
+
+/**
+ * US presidential election days (Tuesday after the first Monday in November)
+ */
+function usElectionDays(fromYear: number, toYear: number): Date[] {
+  const days: Date[] = [];
+  for (let year = fromYear; year <= toYear; year += 4) {
+    const firstOfNovember = new Date(Date.UTC(year, 10, 1)).getUTCDay();
+    const firstMonday = 1 + ((8 - firstOfNovember) % 7);
+    days.push(new Date(Date.UTC(year, 10, firstMonday + 1)));
+  }
+  return days;
+}
+
+export const CYCLE_EVENT_PRESETS: { id: string; set: CycleEventSet }[] = [
+  {
+    id: 'btcHalvings',
+    set: {
+      name: 'Bitcoin halvings',
+      // Genesis block, the four halvings so far, and the next one (estimated)
+      dates: ['2009-01-03', '2012-11-28', '2016-07-09', '2020-05-11', '2024-04-20', '2028-04-15'].map(utc),
+    },
+  },
+  {
+    id: 'usElections',
+    set: {
+      name: 'US presidential elections',
+      dates: usElectionDays(1952, 2032),
+    },
+  },
+];
+
+/**
+ * Read boundary dates from text: one or more per line, comma or whitespace
+ * separated, or the first column of a CSV. Unparseable cells (headers,
+ * labels) are skipped; the result is sorted and deduplicated.
+ */
+export function parseEventDates(text: string): Date[] {
+  const cells = parseCsv(text).flatMap((row) => row.flatMap((cell) => cell.split(/\s+/)));
+  const times = new Set<number>();
+  for (const cell of cells) {
+    if (!/^\d{4}-\d{1,2}-\d{1,2}/.test(cell.trim())) continue;
+    const date = new Date(cell.trim().length === 10 ? `${cell.trim()}T00:00:00Z` : cell.trim());
+    if (!isNaN(date.getTime())) times.add(date.getTime());
+  }
+  return [...times].sort((a, b) => a - b).map((time) => new Date(time));
+}
+
+/**
+ * Mean length of the cycles between boundaries, in days
+ */
+export function meanEventCycleDays(dates: Date[]): number | null {
+  if (dates.length < 2) return null;
+  return (dates[dates.length - 1].getTime() - dates[0].getTime()) / (dates.length - 1) / MS_PER_DAY;
+}
+
+/**
+ * The event cycle containing a time: index of its opening boundary plus
+ * start and end in ms. Before the first and after the last boundary, cycles
+ * repeat the length of the first and last interval. Null with fewer than two
+ * boundaries.
+ */
+export function eventCycle(time: number, dates: Date[]): { index: number; start: number; end: number } | null {
+  if (dates.length < 2) return null;
+
+  const first = dates[0].getTime();
+  const last = dates[dates.length - 1].getTime();
+
+  if (time < first) {
+    const length = dates[1].getTime() - first;
+    const index = Math.floor((time - first) / length);
+    return { index, start: first + index * length, end: first + (index + 1) * length };
+  }
+  if (time >= last) {
+    const length = last - dates[dates.length - 2].getTime();
+    const offset = Math.floor((time - last) / length);
+    return { index: dates.length - 1 + offset, start: last + offset * length, end: last + (offset + 1) * length };
+  }
+
+  // Last boundary at or before the time
+  let lo = 0;
+  let hi = dates.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (dates[mid].getTime() <= time) lo = mid;
+    else hi = mid;
+  }
+  return { index: lo, start: dates[lo].getTime(), end: dates[lo + 1].getTime() };
+}
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { formatPrice } from './geometry';
+
+describe('formatPrice', () => {
+  it('abbreviates large prices', () => {
+    expect(formatPrice(1_234_567)).toBe('$1.2M');
+    expect(formatPrice(45_000)).toBe('$45.0K');
+  });
+
+  it('shows cents from 1 up', () => {
+    expect(formatPrice(12.345)).toBe('$12.35');
+  });
+
+  it('keeps four significant digits below 1', () => {
+    expect(formatPrice(0.5)).toBe('$0.5000');
+    expect(formatPrice(0.01234)).toBe('$0.01234');
+    expect(formatPrice(0.00001234)).toBe('$0.00001234');
+    expect(formatPrice(0.00001234)).not.toBe(formatPrice(0.00002468));
+  });
+});
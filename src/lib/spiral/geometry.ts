@@ -1,16 +1,317 @@
-import { PricePoint, SpiralConfig, SpiralPoint, CycleDuration, ColorMode, CYCLE_DAYS } from '@/types';
+import { PricePoint, SpiralConfig, SpiralPoint, CycleDuration, ColorMode, PriceInterval, PriceBasis, PriceScale, PriceUnit, CYCLE_DAYS, CYCLE_SESSIONS } from '@/types';
+import { isIntradayInterval } from '@/lib/data/intervals';
+import { CURRENCY_SYMBOLS } from '@/lib/data/currency';
+import { eventCycle, meanEventCycleDays } from './cycleEvents';
 import * as THREE from 'three';
 
+// Event cycles without usable boundaries fall back to a four-year cycle
+const DEFAULT_EVENT_CYCLE_DAYS = 4 * 365;
+
 /**
- * Get the number of days in a cycle
+ * Get the number of days in a cycle (the mean length for event cycles)
  */
-export function getCycleDays(duration: CycleDuration, customDays?: number): number {
+export function getCycleDays(duration: CycleDuration, customDays?: number, eventDates?: Date[]): number {
   if (duration === 'custom') {
     return customDays || 365;
   }
+  if (duration === 'events') {
+    return meanEventCycleDays(eventDates ?? []) ?? DEFAULT_EVENT_CYCLE_DAYS;
+  }
   return CYCLE_DAYS[duration];
 }
 
+/**
+ * Get the number of trading sessions in a cycle (custom cycles count their
+ * days as sessions)
+ */
+export function getCycleSessions(duration: CycleDuration, customDays?: number, eventDates?: Date[]): number {
+  if (duration === 'custom') {
+    return customDays || CYCLE_SESSIONS.annual;
+  }
+  if (duration === 'events') {
+    return Math.round(getCycleDays(duration, customDays, eventDates) * CYCLE_SESSIONS.annual / CYCLE_DAYS.annual);
+  }
+  return CYCLE_SESSIONS[duration];
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Trading sessions elapsed at each bar, counted from the first bar.
+ *
+ * Daily and longer bars advance by the sessions they span (1 per daily bar,
+ * 5 per weekly bar), so gaps between bars take no room. Intraday bars count
+ * each UTC date with bars as one session and spread its bars evenly across
+ * it, which removes overnight breaks as well.
+ */
+export function calculateSessionIndices(priceData: PricePoint[]): number[] {
+  if (priceData.length < 2) return priceData.map(() => 0);
+
+  const gaps = priceData
+    .slice(1)
+    .map((point, i) => point.timestamp.getTime() - priceData[i].timestamp.getTime())
+    .sort((a, b) => a - b);
+  const barDays = gaps[Math.floor(gaps.length / 2)] / MS_PER_DAY;
+
+  if (barDays >= 1) {
+    // Five sessions per seven calendar days
+    const sessionsPerBar = Math.max(1, Math.round(barDays * 5 / 7));
+    return priceData.map((_, i) => i * sessionsPerBar);
+  }
+
+  const sessions: number[] = [];
+  let start = 0;
+  let session = 0;
+  for (let i = 1; i <= priceData.length; i++) {
+    const sameDay = i < priceData.length &&
+      Math.floor(priceData[i].timestamp.getTime() / MS_PER_DAY) === Math.floor(priceData[start].timestamp.getTime() / MS_PER_DAY);
+    if (sameDay) continue;
+
+    const count = i - start;
+    for (let j = 0; j < count; j++) sessions.push(session + j / count);
+    session++;
+    start = i;
+  }
+  return sessions;
+}
+
+type CycleConfig = Pick<
+  SpiralConfig,
+  'cycleDuration' | 'customDays' | 'cycleEvents' | 'cycleAnchor' | 'fiscalYearStartMonth' | 'timeBasis'
+>;
+
+/**
+ * Where a timestamp falls in the cycle sequence: `cycle` counts whole cycles
+ * since the one containing the base date, `progress` is 0-1 within the cycle
+ */
+export interface CyclePosition {
+  cycle: number;
+  progress: number;
+}
+
+/**
+ * The calendar cycle (UTC) containing a time: absolute index plus start and
+ * end in ms. Weeks start on Monday; quarters and years start in the fiscal
+ * start month. Custom cycles have no calendar unit and return null.
+ */
+function calendarCycle(
+  time: number,
+  duration: CycleDuration,
+  fiscalYearStartMonth: number
+): { index: number; start: number; end: number } | null {
+  switch (duration) {
+    case 'daily': {
+      const index = Math.floor(time / MS_PER_DAY);
+      return { index, start: index * MS_PER_DAY, end: (index + 1) * MS_PER_DAY };
+    }
+    case 'weekly': {
+      // Day 0 (1970-01-01) was a Thursday, so Mondays fall on day 7k - 3
+      const index = Math.floor((Math.floor(time / MS_PER_DAY) + 3) / 7);
+      const start = (index * 7 - 3) * MS_PER_DAY;
+      return { index, start, end: start + 7 * MS_PER_DAY };
+    }
+    case 'monthly':
+    case 'quarterly':
+    case 'annual': {
+      const months = duration === 'monthly' ? 1 : duration === 'quarterly' ? 3 : 12;
+      const offset = duration === 'monthly' ? 0 : fiscalYearStartMonth;
+      const date = new Date(time);
+      const index = Math.floor((date.getUTCFullYear() * 12 + date.getUTCMonth() - offset) / months);
+      const firstMonth = index * months + offset;
+      const lastMonth = firstMonth + months;
+      return {
+        index,
+        start: Date.UTC(Math.floor(firstMonth / 12), firstMonth % 12, 1),
+        end: Date.UTC(Math.floor(lastMonth / 12), lastMonth % 12, 1),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Position of a timestamp within its cycle.
+ *
+ * Anchored at the first bar, cycles are fixed day counts from `baseDate`
+ * (a month is 30 days, a year 365), which drifts against the calendar over
+ * long ranges. Anchored to the calendar, progress is the true position within
+ * the calendar month/quarter/year, leap years included, so a date lands at the
+ * same angle every cycle.
+ *
+ * On the sessions time basis, `sessionsElapsed` (see calculateSessionIndices)
+ * is divided by the cycle length in sessions instead, and the anchor is
+ * always the first bar.
+ *
+ * Event cycles take one turn per interval between boundary dates, however
+ * long, on either time basis.
+ */
+export function getCyclePosition(
+  timestamp: Date,
+  config: CycleConfig,
+  baseDate: Date,
+  sessionsElapsed?: number
+): CyclePosition {
+  if (config.cycleDuration === 'events') {
+    const current = eventCycle(timestamp.getTime(), config.cycleEvents.dates);
+    const base = eventCycle(baseDate.getTime(), config.cycleEvents.dates);
+    if (current && base) {
+      return {
+        cycle: current.index - base.index,
+        progress: (timestamp.getTime() - current.start) / (current.end - current.start),
+      };
+    }
+  }
+
+  if (config.timeBasis === 'sessions' && sessionsElapsed !== undefined) {
+    const cycles = sessionsElapsed / getCycleSessions(config.cycleDuration, config.customDays, config.cycleEvents.dates);
+    const cycle = Math.floor(cycles);
+    return { cycle, progress: cycles - cycle };
+  }
+
+  if (config.cycleAnchor === 'calendar') {
+    const current = calendarCycle(timestamp.getTime(), config.cycleDuration, config.fiscalYearStartMonth);
+    const base = calendarCycle(baseDate.getTime(), config.cycleDuration, config.fiscalYearStartMonth);
+    if (current && base) {
+      return {
+        cycle: current.index - base.index,
+        progress: (timestamp.getTime() - current.start) / (current.end - current.start),
+      };
+    }
+  }
+
+  const cycleDays = getCycleDays(config.cycleDuration, config.customDays, config.cycleEvents.dates);
+  const cycles = (timestamp.getTime() - baseDate.getTime()) / MS_PER_DAY / cycleDays;
+  const cycle = Math.floor(cycles);
+  return { cycle, progress: cycles - cycle };
+}
+
+/**
+ * Cycle position of every bar of a series, on the configured time basis
+ */
+export function getCyclePositions(priceData: PricePoint[], config: CycleConfig, baseDate: Date): CyclePosition[] {
+  const sessions = config.timeBasis === 'sessions' ? calculateSessionIndices(priceData) : null;
+  return priceData.map((point, i) => getCyclePosition(point.timestamp, config, baseDate, sessions?.[i]));
+}
+
+/**
+ * Whether radius shows each cycle's move from its own start instead of price
+ */
+export function isCycleRelativeScale(scale: PriceScale): boolean {
+  return scale === 'cyclePercent' || scale === 'cycleZScore';
+}
+
+// Radius of the 0% / 0σ ring on cycle-relative scales; gains grow outward from it
+const CYCLE_RELATIVE_BASE_RADIUS = 2.5;
+
+// Bar price that sets a spiral point's radius; 'price' is the close
+export type PriceField = 'price' | 'open' | 'high' | 'low';
+
+/**
+ * A bar's open, high or low, or its close when the bar lacks that field
+ */
+export function fieldPrice(point: PricePoint, field: PriceField): number {
+  return point[field] ?? point.price;
+}
+
+/**
+ * Each point's move since the first bar of its cycle: a fraction on the
+ * percent scale (0.2 = +20%), or on the z-score scale the log return divided
+ * by the cycle's own volatility (per-bar log return deviation × √bars), so
+ * calm and wild cycles fill the same width.
+ *
+ * Cycles start and scale on closes; `priceAt` picks the price measured
+ * against them (e.g. highs and lows for a ribbon, or an indicator).
+ */
+export function calculateCycleRelativeValues(
+  priceData: PricePoint[],
+  config: CycleConfig & Pick<SpiralConfig, 'priceScale'>,
+  baseDate: Date = priceData[0]?.timestamp,
+  priceAt: (point: PricePoint, index: number) => number = (point) => point.price
+): number[] {
+  if (priceData.length === 0) return [];
+
+  const positions = getCyclePositions(priceData, config, baseDate);
+  const values: number[] = new Array(priceData.length);
+
+  let start = 0;
+  for (let i = 1; i <= priceData.length; i++) {
+    if (i < priceData.length && positions[i].cycle === positions[start].cycle) continue;
+
+    // Points start..i-1 form one cycle
+    const startPrice = priceData[start].price;
+    let scale = 1;
+    if (config.priceScale === 'cycleZScore') {
+      const returns: number[] = [];
+      for (let j = start + 1; j < i; j++) {
+        returns.push(Math.log(priceData[j].price / priceData[j - 1].price));
+      }
+      const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+      const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length || 1);
+      scale = Math.sqrt(variance * returns.length);
+    }
+
+    for (let j = start; j < i; j++) {
+      const price = priceAt(priceData[j], j);
+      values[j] = config.priceScale === 'cycleZScore'
+        ? (scale > 0 ? Math.log(price / startPrice) / scale : 0)
+        : price / startPrice - 1;
+    }
+    start = i;
+  }
+
+  return values;
+}
+
+/**
+ * Label for a cycle-relative value, e.g. "+20%", "0%", "−1.5σ"
+ */
+export function formatCycleRelativeValue(value: number, scale: PriceScale): string {
+  const [amount, unit] = scale === 'cycleZScore' ? [value, 'σ'] : [value * 100, '%'];
+  const rounded = Math.round(amount * 10) / 10;
+  if (rounded === 0) return `0${unit}`;
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded)}${unit}`;
+}
+
+/**
+ * Length of a series along the time axis: days, or sessions on the sessions basis
+ */
+export function timeSpan(priceData: PricePoint[], config: Pick<SpiralConfig, 'timeBasis'>): number {
+  if (priceData.length === 0) return 0;
+  if (config.timeBasis === 'sessions') {
+    return calculateSessionIndices(priceData)[priceData.length - 1];
+  }
+  return (priceData[priceData.length - 1].timestamp.getTime() - priceData[0].timestamp.getTime()) / MS_PER_DAY;
+}
+
+// Radius of the scaling's price origin on log and min-based linear scales,
+// so the series' low sits off the axis
+const ORIGIN_RADIUS = 0.5;
+
+/**
+ * Radius of a price on the log and linear scales.
+ *
+ * Log radius counts decades above `priceOrigin` (normally the series' low),
+ * so any positive range works, sub-dollar prices included. Linear radius is
+ * the price itself, or its distance above the origin when the linear origin
+ * is the series' low.
+ */
+export function priceToRadius(
+  price: number,
+  config: Pick<SpiralConfig, 'priceScale' | 'linearOrigin'>,
+  { radiusScale, priceOrigin }: { radiusScale: number; priceOrigin: number }
+): number {
+  if (config.priceScale === 'logarithmic') {
+    return price > 0 && priceOrigin > 0
+      ? ORIGIN_RADIUS + Math.log10(price / priceOrigin) * radiusScale
+      : NaN;
+  }
+  if (config.linearOrigin === 'min') {
+    return ORIGIN_RADIUS + (price - priceOrigin) * radiusScale;
+  }
+  return price * radiusScale;
+}
+
 /**
  * Convert a price point to 3D spiral coordinates
  *
@@ -29,43 +330,40 @@ export function pricePointToSpiral(
     verticalScale?: number;
     radiusScale?: number;
     minRadius?: number;
+    priceOrigin?: number; // Price drawn at ORIGIN_RADIUS (log and min-based linear scales)
+    sessionsElapsed?: number; // Position on the sessions time basis
+    relativeValue?: number; // Move since cycle start on cycle-relative scales
   } = {}
 ): SpiralPoint {
   const {
-    verticalScale = 0.01,  // How much vertical distance per day
+    verticalScale = 0.01,  // How much vertical distance per day (or session)
     radiusScale = 1,        // Scale factor for price radius
     minRadius = 0.5,        // Minimum radius to prevent center collapse
+    priceOrigin = config.priceScale === 'logarithmic' ? 1 : 0,
+    sessionsElapsed,
+    relativeValue = 0,
   } = options;
 
-  // Calculate days elapsed (determines vertical position AND angle)
-  const msPerDay = 1000 * 60 * 60 * 24;
-  const daysElapsed = (point.timestamp.getTime() - baseDate.getTime()) / msPerDay;
-
-  // Get cycle duration in days
-  const cycleDays = getCycleDays(config.cycleDuration, config.customDays);
-
-  // Calculate cycle progress (0 to N cycles)
-  const cycleProgress = daysElapsed / cycleDays;
+  // Time elapsed (determines vertical position), in days or sessions
+  const elapsed = config.timeBasis === 'sessions' && sessionsElapsed !== undefined
+    ? sessionsElapsed
+    : (point.timestamp.getTime() - baseDate.getTime()) / MS_PER_DAY;
 
   // Angle in radians (full rotation per cycle)
-  const angle = cycleProgress * 2 * Math.PI;
+  const { progress } = getCyclePosition(point.timestamp, config, baseDate, sessionsElapsed);
+  const angle = progress * 2 * Math.PI;
 
   // Y-axis = TIME (vertical progression)
-  const y = daysElapsed * verticalScale;
+  const y = elapsed * verticalScale;
 
   // RADIUS = PRICE (distance from center axis)
-  let radius: number;
-  if (config.priceScale === 'logarithmic') {
-    // Log scale: better for assets with large price ranges
-    // log10(100) = 2, log10(1000) = 3, log10(10000) = 4
-    radius = Math.log10(Math.max(point.price, 1)) * radiusScale;
-  } else {
-    // Linear scale: direct price mapping
-    radius = point.price * radiusScale;
-  }
+  let radius = isCycleRelativeScale(config.priceScale)
+    // Cycle-relative: every cycle starts on the same ring
+    ? CYCLE_RELATIVE_BASE_RADIUS + relativeValue * radiusScale
+    : priceToRadius(point.price, config, { radiusScale, priceOrigin });
 
-  // Ensure minimum radius
-  radius = Math.max(radius, minRadius);
+  // Ensure minimum radius (NaN, e.g. a log of a non-positive price, too)
+  radius = radius > minRadius ? radius : minRadius;
 
   // X and Z create the circular motion at the price radius
   const x = radius * Math.cos(angle);
@@ -90,18 +388,44 @@ export function priceSeriesToSpiral(
     verticalScale?: number;
     radiusScale?: number;
     minRadius?: number;
+    priceOrigin?: number;
+    baseDate?: Date; // Shared time origin when several series are drawn together
+    field?: PriceField; // Bar price used for the radius (default close)
+    values?: number[]; // Per-bar prices used for the radius instead, e.g. an indicator
   }
 ): SpiralPoint[] {
   if (priceData.length === 0) return [];
 
-  // Use the first data point's date as the base
-  const baseDate = priceData[0].timestamp;
-
-  return priceData.map((point) =>
-    pricePointToSpiral(point, config, baseDate, options)
+  // Use the first data point's date as the base unless one is given
+  const baseDate = options?.baseDate ?? priceData[0].timestamp;
+  const field = options?.field ?? 'price';
+  const values = options?.values;
+  const priceAt = (point: PricePoint, i: number) => (values ? values[i] : fieldPrice(point, field));
+
+  // Sessions are counted from this series' own first bar
+  const sessions = config.timeBasis === 'sessions' ? calculateSessionIndices(priceData) : null;
+  const relative = isCycleRelativeScale(config.priceScale)
+    ? calculateCycleRelativeValues(priceData, config, baseDate, priceAt)
+    : null;
+
+  return priceData.map((point, i) =>
+    pricePointToSpiral(field === 'price' && !values ? point : { ...point, price: priceAt(point, i) }, config, baseDate, {
+      ...options,
+      sessionsElapsed: sessions?.[i],
+      relativeValue: relative?.[i],
+    })
   );
 }
 
+/**
+ * Vertical and radial scale factors, plus the price the radius is measured from
+ */
+export interface SpiralScaling {
+  verticalScale: number;
+  radiusScale: number;
+  priceOrigin: number; // See priceToRadius; unused on zero-based linear and cycle-relative scales
+}
+
 /**
  * Calculate optimal scaling factors based on price data
  */
@@ -110,15 +434,13 @@ export function calculateScaling(
   config: SpiralConfig,
   targetHeight: number = 10,
   targetMaxRadius: number = 5
-): { verticalScale: number; radiusScale: number } {
+): SpiralScaling {
   if (priceData.length === 0) {
-    return { verticalScale: 0.01, radiusScale: 1 };
+    return { verticalScale: 0.01, radiusScale: 1, priceOrigin: config.priceScale === 'logarithmic' ? 1 : 0 };
   }
 
-  // Calculate total days span
-  const firstDate = priceData[0].timestamp;
-  const lastDate = priceData[priceData.length - 1].timestamp;
-  const totalDays = (lastDate.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24);
+  // Calculate total span in days (or sessions)
+  const totalDays = timeSpan(priceData, config);
 
   // Calculate vertical scale to achieve target height
   const verticalScale = totalDays > 0 ? targetHeight / totalDays : 0.01;
@@ -127,38 +449,169 @@ export function calculateScaling(
   const maxPrice = Math.max(...priceData.map((p) => p.price));
   const minPrice = Math.min(...priceData.map((p) => p.price));
 
-  let radiusScale: number;
+  if (isCycleRelativeScale(config.priceScale)) {
+    // Largest move in either direction reaches the target radius
+    const maxMove = Math.max(...calculateCycleRelativeValues(priceData, config).map(Math.abs));
+    const radiusScale = maxMove > 0 ? (targetMaxRadius - CYCLE_RELATIVE_BASE_RADIUS) / maxMove : 1;
+    return { verticalScale, radiusScale, priceOrigin: 0 };
+  }
+
   if (config.priceScale === 'logarithmic') {
-    const maxLogRadius = Math.log10(Math.max(maxPrice, 1));
-    radiusScale = maxLogRadius > 0 ? targetMaxRadius / maxLogRadius : 1;
-  } else {
-    radiusScale = maxPrice > 0 ? targetMaxRadius / maxPrice : 1;
+    // Lowest to highest positive price spans the radius, whatever the decade
+    const positive = priceData.map((p) => p.price).filter((price) => price > 0);
+    if (positive.length === 0) return { verticalScale, radiusScale: 1, priceOrigin: 1 };
+    const low = Math.min(...positive);
+    const decades = Math.log10(Math.max(...positive) / low);
+    const radiusScale = decades > 0 ? (targetMaxRadius - ORIGIN_RADIUS) / decades : 1;
+    return { verticalScale, radiusScale, priceOrigin: low };
+  }
+
+  if (config.linearOrigin === 'min') {
+    const range = maxPrice - minPrice;
+    const radiusScale = range > 0 ? (targetMaxRadius - ORIGIN_RADIUS) / range : 1;
+    return { verticalScale, radiusScale, priceOrigin: minPrice };
+  }
+
+  const radiusScale = maxPrice > 0 ? targetMaxRadius / maxPrice : 1;
+  return { verticalScale, radiusScale, priceOrigin: 0 };
+}
+
+/**
+ * Time origin and scale factors for one of several series drawn together
+ */
+export interface SeriesLayout extends SpiralScaling {
+  baseDate: Date;
+}
+
+/**
+ * Lay out several series in one scene.
+ *
+ * Calendar alignment gives every series the earliest start as time origin, so
+ * the same date sits at the same height and angle. Start alignment gives each
+ * series its own origin so they all begin at the bottom. Radius is either
+ * scaled over all series together or per series to fill the same width.
+ */
+export function calculateSeriesLayouts(
+  seriesData: PricePoint[][],
+  config: SpiralConfig,
+  targetHeight: number = 10,
+  targetMaxRadius: number = 5
+): SeriesLayout[] {
+  const nonEmpty = seriesData.filter((data) => data.length > 0);
+  if (nonEmpty.length === 0) {
+    return seriesData.map(() => ({ baseDate: new Date(0), ...calculateScaling([], config) }));
   }
 
-  return { verticalScale, radiusScale };
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const firstTime = (data: PricePoint[]) => data[0].timestamp.getTime();
+  const lastTime = (data: PricePoint[]) => data[data.length - 1].timestamp.getTime();
+
+  const earliest = Math.min(...nonEmpty.map(firstTime));
+  const latest = Math.max(...nonEmpty.map(lastTime));
+  const longestSpan = Math.max(...nonEmpty.map((data) => lastTime(data) - firstTime(data)));
+
+  // Calendar alignment spans the union of all ranges, start alignment the longest series.
+  // Sessions are counted per series, so that basis always aligns at the start.
+  const totalDays = config.timeBasis === 'sessions'
+    ? Math.max(...nonEmpty.map((data) => timeSpan(data, config)))
+    : (config.seriesAlignment === 'calendar' ? latest - earliest : longestSpan) / msPerDay;
+  const verticalScale = totalDays > 0 ? targetHeight / totalDays : 0.01;
+
+  // Cycle-relative moves are measured per series, so sharing takes the tightest fit
+  const sharedScaling = isCycleRelativeScale(config.priceScale)
+    ? { priceOrigin: 0, radiusScale: Math.min(...nonEmpty.map((data) => calculateScaling(data, config, targetHeight, targetMaxRadius).radiusScale)) }
+    : calculateScaling(nonEmpty.flat(), config, targetHeight, targetMaxRadius);
+
+  return seriesData.map((data) => {
+    const { radiusScale, priceOrigin } = config.seriesRadiusScale === 'shared' || data.length === 0
+      ? sharedScaling
+      : calculateScaling(data, config, targetHeight, targetMaxRadius);
+    return {
+      baseDate: config.seriesAlignment === 'calendar' || data.length === 0
+        ? new Date(earliest)
+        : data[0].timestamp,
+      verticalScale,
+      radiusScale,
+      priceOrigin,
+    };
+  });
+}
+
+/**
+ * Round step of 1, 2 or 5 × 10^n giving roughly `count` steps over a range
+ */
+function niceStep(range: number, count: number = 4): number {
+  if (range <= 0) return 1;
+  const rough = range / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= rough) ?? 10;
+  return step * magnitude;
+}
+
+// Log rings: 1-2-5 steps up to this many decades, whole decades beyond
+const LOG_SUBDIVIDED_DECADES = 4;
+
+/**
+ * Prices for log scale rings: whole decades over wide ranges, 1-2-5 steps
+ * over a few decades, and round linear steps within a single decade
+ */
+function logRingPrices(minPrice: number, maxPrice: number): number[] {
+  const decades = Math.log10(maxPrice / minPrice);
+
+  if (decades < 1) {
+    const step = niceStep(maxPrice - minPrice);
+    const prices: number[] = [];
+    for (let n = Math.floor(minPrice / step); n * step <= maxPrice + step; n++) {
+      if (n > 0) prices.push(n * step);
+    }
+    return prices;
+  }
+
+  const factors = decades > LOG_SUBDIVIDED_DECADES ? [1] : [1, 2, 5];
+  const prices: number[] = [];
+  for (let power = Math.floor(Math.log10(minPrice)); power <= Math.ceil(Math.log10(maxPrice)); power++) {
+    for (const factor of factors) {
+      const price = factor * Math.pow(10, power);
+      // Keep one ring just past each end of the range
+      if (price >= minPrice / (factors.length > 1 ? 2.5 : 10) && price <= maxPrice * (factors.length > 1 ? 2.5 : 10)) {
+        prices.push(price);
+      }
+    }
+  }
+  return prices;
 }
 
 /**
  * Generate price level ring positions for visualization
- * Returns radii for different price levels (e.g., $100, $1K, $10K)
+ * Returns radii for different price levels (e.g., $100, $1K, $10K).
+ * On cycle-relative scales min and max are relative values and so are the
+ * ring "prices" (e.g. -0.2, 0, 0.2); see formatCycleRelativeValue.
  */
 export function generatePriceLevelRings(
   minPrice: number,
   maxPrice: number,
   config: SpiralConfig,
-  radiusScale: number
+  scaling: Pick<SpiralScaling, 'radiusScale' | 'priceOrigin'>
 ): { price: number; radius: number }[] {
   const rings: { price: number; radius: number }[] = [];
 
-  if (config.priceScale === 'logarithmic') {
-    // Generate rings at powers of 10
-    const minPower = Math.floor(Math.log10(Math.max(minPrice, 1)));
-    const maxPower = Math.ceil(Math.log10(Math.max(maxPrice, 1)));
-
-    for (let power = minPower; power <= maxPower; power++) {
-      const price = Math.pow(10, power);
-      if (price >= minPrice * 0.5 && price <= maxPrice * 2) {
-        const radius = Math.log10(price) * radiusScale;
+  if (isCycleRelativeScale(config.priceScale)) {
+    // Symmetric steps around the 0 ring
+    const step = niceStep(maxPrice - minPrice);
+    const first = Math.floor(Math.min(minPrice, 0) / step);
+    const last = Math.ceil(Math.max(maxPrice, 0) / step);
+    for (let n = first; n <= last; n++) {
+      const value = n * step;
+      const radius = CYCLE_RELATIVE_BASE_RADIUS + value * scaling.radiusScale;
+      if (radius > 0) {
+        rings.push({ price: value, radius });
+      }
+    }
+  } else if (config.priceScale === 'logarithmic') {
+    if (minPrice <= 0 || maxPrice <= 0) return rings;
+    for (const price of logRingPrices(minPrice, maxPrice)) {
+      const radius = priceToRadius(price, config, scaling);
+      if (radius > 0) {
         rings.push({ price, radius });
       }
     }
@@ -166,12 +619,12 @@ export function generatePriceLevelRings(
     // Generate rings at nice round numbers
     const range = maxPrice - minPrice;
     const step = Math.pow(10, Math.floor(Math.log10(range)));
-    const niceStep = step > 0 ? step : 1;
+    const ringStep = step > 0 ? step : 1;
 
-    const startPrice = Math.floor(minPrice / niceStep) * niceStep;
-    for (let price = startPrice; price <= maxPrice * 1.1; price += niceStep) {
-      if (price > 0) {
-        const radius = price * radiusScale;
+    const startPrice = Math.floor(minPrice / ringStep) * ringStep;
+    for (let price = startPrice; price <= maxPrice * 1.1; price += ringStep) {
+      const radius = priceToRadius(price, config, scaling);
+      if (price > 0 && radius > 0) {
         rings.push({ price, radius });
       }
     }
@@ -180,6 +633,31 @@ export function generatePriceLevelRings(
   return rings;
 }
 
+/**
+ * Price level rings spanning a series: its prices, or on cycle-relative
+ * scales its moves from cycle starts
+ */
+export function calculatePriceLevelRings(
+  priceData: PricePoint[],
+  config: SpiralConfig,
+  scaling: Pick<SpiralScaling, 'radiusScale' | 'priceOrigin'>
+): { price: number; radius: number }[] {
+  if (priceData.length === 0) return [];
+
+  const values = isCycleRelativeScale(config.priceScale)
+    ? calculateCycleRelativeValues(priceData, config)
+    : priceData.map((p) => p.price).filter((price) => config.priceScale !== 'logarithmic' || price > 0);
+  if (values.length === 0) return [];
+  return generatePriceLevelRings(Math.min(...values), Math.max(...values), config, scaling);
+}
+
+/**
+ * Label for a price level ring in the configured price scale
+ */
+export function formatPriceLevel(value: number, scale: PriceScale, unit: PriceUnit): string {
+  return isCycleRelativeScale(scale) ? formatCycleRelativeValue(value, scale) : formatPrice(value, unit);
+}
+
 /**
  * Get the ISO week number for a date
  */
@@ -191,73 +669,82 @@ function getWeekNumber(date: Date): number {
   return Math.ceil((((d.getTime() - yearStart.getTime()) / 86400000) + 1) / 7);
 }
 
+/**
+ * Find the last index of each consecutive group of points sharing a key
+ * (e.g. the last trading day of each month)
+ */
+function lastIndexPerGroup(
+  priceData: PricePoint[],
+  getKey: (date: Date, index: number) => number
+): number[] {
+  const indices: number[] = [];
+  let lastKey: number | null = null;
+
+  priceData.forEach((point, i) => {
+    const key = getKey(point.timestamp, i);
+    if (lastKey !== null && key !== lastKey) {
+      // New group started - save the last index of the previous group
+      indices.push(i - 1);
+    }
+    lastKey = key;
+  });
+
+  // Don't forget the last group
+  if (priceData.length > 0) {
+    indices.push(priceData.length - 1);
+  }
+
+  return indices;
+}
+
+// Calendar day (trading session) key in local time
+function sessionKey(date: Date): number {
+  return date.getFullYear() * 10000 + date.getMonth() * 100 + date.getDate();
+}
+
+// Max sessions for which sub-hourly bars get hourly markers on a daily cycle
+const MAX_HOURLY_MARKER_SESSIONS = 10;
+
 /**
  * Find indices of key time boundaries for marker placement
- * - Annual/Custom (>90 days): End of month (last trading day)
+ * - Annual/Events/Custom (>90 days): End of month (last trading day)
  * - Quarterly: End of week
  * - Monthly: End of week
  * - Weekly: End of day (daily markers)
- * - Daily: Every few hours or just endpoints
+ * - Daily: Hourly or end-of-session markers for intraday bars,
+ *   otherwise just a few evenly spaced points
+ *
+ * With `sessions` (the sessions time basis) multi-session cycles are marked
+ * every 21 sessions (a trading month), 5 sessions or every session instead.
  */
 export function getMarkerIndices(
   priceData: PricePoint[],
   cycleDuration: CycleDuration,
-  customDays?: number
+  customDays?: number,
+  interval: PriceInterval = '1d',
+  sessions?: number[]
 ): number[] {
   if (priceData.length === 0) return [];
 
-  const indices: number[] = [];
-  const cycleDays = getCycleDays(cycleDuration, customDays);
-
-  if (cycleDuration === 'annual' || cycleDuration === 'custom' && (customDays || 365) >= 90) {
-    // Monthly markers - find last trading day of each month
-    let lastMonth = -1;
-    let lastIndexInMonth = -1;
-
-    priceData.forEach((point, i) => {
-      const month = point.timestamp.getMonth();
-      const year = point.timestamp.getFullYear();
-      const monthKey = year * 12 + month;
-
-      if (monthKey !== lastMonth) {
-        // New month started - save the last index of previous month
-        if (lastIndexInMonth >= 0) {
-          indices.push(lastIndexInMonth);
-        }
-        lastMonth = monthKey;
-      }
-      lastIndexInMonth = i;
-    });
+  let indices: number[] = [];
+  const intraday = isIntradayInterval(interval);
+  const cycleSessions = getCycleSessions(cycleDuration, customDays);
 
-    // Don't forget the last month
-    if (lastIndexInMonth >= 0 && !indices.includes(lastIndexInMonth)) {
-      indices.push(lastIndexInMonth);
-    }
+  if (sessions && cycleSessions > 1) {
+    const step = cycleSessions >= CYCLE_SESSIONS.quarterly ? 21 : cycleSessions >= CYCLE_SESSIONS.monthly ? 5 : 1;
+    indices = lastIndexPerGroup(priceData, (_, i) => Math.floor(sessions[i] / step));
+
+  } else if (cycleDuration === 'annual' || cycleDuration === 'events' || cycleDuration === 'custom' && (customDays || 365) >= 90) {
+    // Monthly markers - last trading day of each month
+    indices = lastIndexPerGroup(priceData, (date) => date.getFullYear() * 12 + date.getMonth());
 
   } else if (cycleDuration === 'quarterly' || cycleDuration === 'monthly') {
-    // Weekly markers - find last trading day of each week
-    let lastWeek = -1;
-    let lastIndexInWeek = -1;
-
-    priceData.forEach((point, i) => {
-      const week = getWeekNumber(point.timestamp);
-      const year = point.timestamp.getFullYear();
-      const weekKey = year * 100 + week;
-
-      if (weekKey !== lastWeek) {
-        // New week started - save the last index of previous week
-        if (lastIndexInWeek >= 0) {
-          indices.push(lastIndexInWeek);
-        }
-        lastWeek = weekKey;
-      }
-      lastIndexInWeek = i;
-    });
+    // Weekly markers - last trading day of each week
+    indices = lastIndexPerGroup(priceData, (date) => date.getFullYear() * 100 + getWeekNumber(date));
 
-    // Don't forget the last week
-    if (lastIndexInWeek >= 0 && !indices.includes(lastIndexInWeek)) {
-      indices.push(lastIndexInWeek);
-    }
+  } else if (cycleDuration === 'weekly' && intraday) {
+    // Daily markers - last bar of each session
+    indices = lastIndexPerGroup(priceData, sessionKey);
 
   } else if (cycleDuration === 'weekly') {
     // Daily markers - every trading day
@@ -268,6 +755,16 @@ export function getMarkerIndices(
       }
     });
 
+  } else if (intraday) {
+    // Daily cycle with intraday bars - hourly markers for short spans,
+    // session markers once there are too many hours to show
+    const sessions = new Set(priceData.map((p) => sessionKey(p.timestamp))).size;
+    const hourly = interval !== '1h' && sessions <= MAX_HOURLY_MARKER_SESSIONS;
+    indices = lastIndexPerGroup(
+      priceData,
+      hourly ? (date) => sessionKey(date) * 100 + date.getHours() : sessionKey
+    );
+
   } else {
     // Daily cycle - just a few markers
     const step = Math.max(1, Math.floor(priceData.length / 10));
@@ -290,22 +787,98 @@ export function getMarkerIndices(
 }
 
 /**
- * Format price for display
+ * Format price for display in the given currency.
+ * Ratio values (one asset priced in another) are unitless.
  */
-export function formatPrice(price: number): string {
+export function formatPrice(price: number, unit: PriceUnit = 'USD'): string {
+  const symbol = unit === 'ratio' ? '' : CURRENCY_SYMBOLS[unit];
+
   if (price >= 1_000_000_000) {
-    return `$${(price / 1_000_000_000).toFixed(1)}B`;
+    return `${symbol}${(price / 1_000_000_000).toFixed(1)}B`;
   }
   if (price >= 1_000_000) {
-    return `$${(price / 1_000_000).toFixed(1)}M`;
+    return `${symbol}${(price / 1_000_000).toFixed(1)}M`;
   }
   if (price >= 1_000) {
-    return `$${(price / 1_000).toFixed(1)}K`;
+    return `${symbol}${(price / 1_000).toFixed(1)}K`;
   }
   if (price >= 1) {
-    return `$${price.toFixed(2)}`;
+    return `${symbol}${price.toFixed(unit === 'ratio' ? 3 : 2)}`;
+  }
+  if (price <= 0) {
+    return `${symbol}${price.toFixed(4)}`;
+  }
+  // Four significant digits, so sub-cent prices stay distinguishable
+  const decimals = Math.min(20, Math.max(4, 3 - Math.floor(Math.log10(price))));
+  return `${symbol}${price.toFixed(decimals)}`;
+}
+
+/**
+ * Back-adjustment factor for each point: as-traded prices are multiplied by
+ * this to express them in today's share count (1 after the last split).
+ */
+function calculateSplitFactors(priceData: PricePoint[]): number[] {
+  // Cumulative split ratio up to and including each point
+  const cumulative: number[] = [];
+  let ratio = 1;
+  for (const point of priceData) {
+    ratio *= point.split && point.split > 0 ? point.split : 1;
+    cumulative.push(ratio);
   }
-  return `$${price.toFixed(4)}`;
+  return cumulative.map((c) => c / ratio);
+}
+
+/**
+ * Build a total-return series: split-adjusted prices with dividends
+ * reinvested on their ex-date. Starts at the first split-adjusted price.
+ */
+export function calculateTotalReturnSeries(priceData: PricePoint[]): number[] {
+  if (priceData.length === 0) return [];
+
+  const factors = calculateSplitFactors(priceData);
+  const adjusted = priceData.map((p, i) => p.price * factors[i]);
+  const series: number[] = [adjusted[0]];
+
+  for (let i = 1; i < priceData.length; i++) {
+    const dividend = (priceData[i].dividend ?? 0) * factors[i];
+    series.push(series[i - 1] * (adjusted[i] + dividend) / adjusted[i - 1]);
+  }
+
+  return series;
+}
+
+/**
+ * Re-express a series in the chosen price basis.
+ * OHLC is scaled by the same factor as the close; volume is
+ * split-adjusted inversely and dividends by the split factor alone.
+ * Raw data is returned unchanged.
+ */
+export function applyPriceBasis(priceData: PricePoint[], basis: PriceBasis): PricePoint[] {
+  if (basis === 'raw' || priceData.length === 0) return priceData;
+
+  // Nothing to adjust for (e.g. imported series or no corporate actions)
+  if (!priceData.some((p) => p.split !== undefined || p.dividend !== undefined)) {
+    return priceData;
+  }
+
+  const splitFactors = calculateSplitFactors(priceData);
+  const totalReturn = basis === 'totalReturn' ? calculateTotalReturnSeries(priceData) : null;
+
+  return priceData.map((point, i) => {
+    const factor = totalReturn ? totalReturn[i] / point.price : splitFactors[i];
+    const scale = (value?: number) => (value === undefined ? undefined : value * factor);
+
+    return {
+      ...point,
+      price: point.price * factor,
+      open: scale(point.open),
+      high: scale(point.high),
+      low: scale(point.low),
+      volume: point.volume === undefined ? undefined : point.volume / splitFactors[i],
+      // Per share in the same share count as the prices
+      dividend: point.dividend === undefined ? undefined : point.dividend * splitFactors[i],
+    };
+  });
 }
 
 /**
@@ -357,6 +930,54 @@ export function calculateVolatility(priceData: PricePoint[], window: number = 20
   return volatilities;
 }
 
+/**
+ * Each bar's volume relative to the average of the `window` bars before it
+ * (1 = average). Bars without volume, or without earlier volume to compare
+ * against, count as average.
+ */
+export function calculateRelativeVolume(priceData: PricePoint[], window: number = 20): number[] {
+  const recent: number[] = [];
+  let sum = 0;
+
+  return priceData.map((point) => {
+    const volume = point.volume;
+    if (volume === undefined || volume <= 0) return 1;
+
+    const relative = recent.length > 0 && sum > 0 ? volume / (sum / recent.length) : 1;
+
+    recent.push(volume);
+    sum += volume;
+    if (recent.length > window) sum -= recent.shift()!;
+
+    return relative;
+  });
+}
+
+// Narrowest and widest volume-weighted line, as multiples of the normal width
+const VOLUME_WIDTH_MIN = 0.4;
+const VOLUME_WIDTH_MAX = 4;
+
+/**
+ * Line width multiplier for a bar's relative volume
+ */
+export function volumeWidthFactor(relativeVolume: number): number {
+  return Math.min(VOLUME_WIDTH_MAX, Math.max(VOLUME_WIDTH_MIN, relativeVolume));
+}
+
+/**
+ * Each bar's volume on a 0-1 log scale between the series' lowest and highest
+ * volume, or null for bars without volume
+ */
+export function calculateVolumeLevels(priceData: PricePoint[]): (number | null)[] {
+  const logs = priceData.map((p) => (p.volume !== undefined && p.volume > 0 ? Math.log(p.volume) : null));
+  const known = logs.filter((v): v is number => v !== null);
+  if (known.length === 0) return logs;
+
+  const min = Math.min(...known);
+  const range = Math.max(...known) - min || 1;
+  return logs.map((v) => (v === null ? null : (v - min) / range));
+}
+
 /**
  * Calculate cycle position for each point (0-1 representing position within cycle)
  */
@@ -366,15 +987,8 @@ export function calculateCyclePositions(
 ): number[] {
   if (priceData.length === 0) return [];
 
-  const baseDate = priceData[0].timestamp;
-  const cycleDays = getCycleDays(config.cycleDuration, config.customDays);
-  const msPerDay = 1000 * 60 * 60 * 24;
-
-  return priceData.map((point) => {
-    const daysElapsed = (point.timestamp.getTime() - baseDate.getTime()) / msPerDay;
-    const cycleProgress = daysElapsed / cycleDays;
-    return cycleProgress % 1; // Position within current cycle (0-1)
-  });
+  // Position within current cycle (0-1)
+  return getCyclePositions(priceData, config, priceData[0].timestamp).map((position) => position.progress);
 }
 
 /**
@@ -418,6 +1032,9 @@ export function getColorForPoint(
     drawdowns?: number[];
     volatilities?: number[];
     cyclePositionReturns?: { position: number; avgReturn: number }[];
+    cyclePositions?: number[];
+    volumeLevels?: (number | null)[];
+    relativeVolumes?: number[];
   }
 ): THREE.Color {
   const returns = cachedData?.returns || calculateReturns(priceData);
@@ -468,7 +1085,7 @@ export function getColorForPoint(
     case 'cyclePosition': {
       // Color based on average return at this cycle position
       const cycleReturns = cachedData?.cyclePositionReturns || calculateCyclePositionReturns(priceData, config);
-      const positions = calculateCyclePositions(priceData, config);
+      const positions = cachedData?.cyclePositions || calculateCyclePositions(priceData, config);
       const bucketIndex = Math.floor(positions[index] * cycleReturns.length) % cycleReturns.length;
       const avgReturn = cycleReturns[bucketIndex].avgReturn;
 
@@ -482,6 +1099,23 @@ export function getColorForPoint(
       }
     }
 
+    case 'volume': {
+      // Dark (thin trading) to bright cyan (heavy); gray where volume is unknown
+      const levels = cachedData?.volumeLevels || calculateVolumeLevels(priceData);
+      const level = levels[index];
+      if (level === null) return new THREE.Color('#666666');
+      return new THREE.Color('#1a2a3a').lerp(new THREE.Color('#00e5ff'), level);
+    }
+
+    case 'volumeAnomaly': {
+      // Red for volume above its recent average, blue below; full at 4x / a quarter
+      const relativeVolumes = cachedData?.relativeVolumes || calculateRelativeVolume(priceData);
+      const deviation = Math.max(-1, Math.min(1, Math.log2(relativeVolumes[index]) / 2));
+      return deviation >= 0
+        ? new THREE.Color('#444444').lerp(new THREE.Color('#ff2222'), deviation)
+        : new THREE.Color('#444444').lerp(new THREE.Color('#2255ff'), -deviation);
+    }
+
     default:
       return new THREE.Color('#ff6600');
   }
@@ -499,5 +1133,8 @@ export function preCalculateColorData(
     drawdowns: calculateDrawdown(priceData),
     volatilities: calculateVolatility(priceData),
     cyclePositionReturns: calculateCyclePositionReturns(priceData, config),
+    cyclePositions: calculateCyclePositions(priceData, config),
+    volumeLevels: calculateVolumeLevels(priceData),
+    relativeVolumes: calculateRelativeVolume(priceData),
   };
 }
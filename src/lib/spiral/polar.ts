@@ -0,0 +1,100 @@
+import { SpiralConfig, SpiralPoint } from '@/types';
+import { getCyclePosition } from './geometry';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface AngularTick {
+  angle: number; // Radians, same convention as the spiral (0 = cycle start)
+  label: string;
+}
+
+/**
+ * Project a spiral point onto the flat polar plane: viewed from above with
+ * the cycle start at 12 o'clock and time running clockwise (SVG y points down)
+ */
+export function toPolarPlane(point: Pick<SpiralPoint, 'x' | 'z'>): [number, number] {
+  return [point.z, -point.x];
+}
+
+/**
+ * Plane coordinates of a radius and spiral angle, for ticks and rings
+ */
+export function polarToPlane(radius: number, angle: number): [number, number] {
+  return toPolarPlane({ x: radius * Math.cos(angle), z: radius * Math.sin(angle) });
+}
+
+// Weekdays from a to b, a rough session count that ignores holidays
+function weekdaysBetween(from: Date, to: Date): number {
+  let count = 0;
+  for (let time = from.getTime(); time < to.getTime(); time += MS_PER_DAY) {
+    const day = new Date(time).getUTCDay();
+    if (day !== 0 && day !== 6) count++;
+  }
+  return count;
+}
+
+/**
+ * Dates in the first cycle after `start` worth labelling, with their labels
+ */
+function tickDates(config: SpiralConfig, start: Date): { date: Date; label: string }[] | null {
+  const year = start.getUTCFullYear();
+  const month = start.getUTCMonth();
+  const day = start.getUTCDate();
+  const isSessions = config.timeBasis === 'sessions';
+
+  switch (config.cycleDuration) {
+    case 'daily':
+      // A session has no fixed hours on the sessions basis
+      if (isSessions) return null;
+      return [0, 6, 12, 18].map((hour) => ({
+        date: new Date(Date.UTC(year, month, day, hour)),
+        label: `${String(hour).padStart(2, '0')}:00`,
+      }));
+    case 'weekly':
+      return Array.from({ length: 7 }, (_, i) => new Date(Date.UTC(year, month, day + i)))
+        .filter((date) => !isSessions || (date.getUTCDay() !== 0 && date.getUTCDay() !== 6))
+        .map((date) => ({ date, label: WEEKDAY_LABELS[date.getUTCDay()] }));
+    case 'monthly':
+      return [1, 8, 15, 22].map((dayOfMonth) => ({
+        date: new Date(Date.UTC(year, month + 1, dayOfMonth)),
+        label: String(dayOfMonth),
+      }));
+    case 'quarterly':
+    case 'annual': {
+      // Quarters only have fixed calendar months when calendar-anchored
+      if (config.cycleDuration === 'quarterly' && (config.cycleAnchor !== 'calendar' || isSessions)) return null;
+      const months = config.cycleDuration === 'annual' ? 12 : 3;
+      return Array.from({ length: months }, (_, i) => {
+        const date = new Date(Date.UTC(year, month + 1 + i, 1));
+        return { date, label: MONTH_LABELS[date.getUTCMonth()] };
+      });
+    }
+    default:
+      // Custom and event cycles have no calendar unit to label
+      return null;
+  }
+}
+
+/**
+ * Angular tick labels around the polar chart: hours, weekdays, days of the
+ * month or months depending on the cycle, and quarter turns where the cycle
+ * has no fixed calendar unit
+ */
+export function getAngularTicks(config: SpiralConfig, baseDate: Date): AngularTick[] {
+  const dates = tickDates(config, baseDate);
+  if (!dates) {
+    return [0, 0.25, 0.5, 0.75].map((progress) => ({
+      angle: progress * 2 * Math.PI,
+      label: `${progress * 100}%`,
+    }));
+  }
+
+  return dates.map(({ date, label }) => {
+    const sessions = config.timeBasis === 'sessions' ? weekdaysBetween(baseDate, date) : undefined;
+    const { progress } = getCyclePosition(date, config, baseDate, sessions);
+    return { angle: progress * 2 * Math.PI, label };
+  });
+}
@@ -0,0 +1,87 @@
+import * as THREE from 'three';
+
+type Vec3 = [number, number, number];
+
+/**
+ * One bar's cross-section: the radial span between two prices at the bar's
+ * height, e.g. low to high
+ */
+export interface RibbonSection {
+  inner: Vec3;
+  outer: Vec3;
+  color: THREE.Color;
+}
+
+// Narrowest radial span drawn, so bars without a range stay visible
+const MIN_WIDTH = 0.02;
+
+// Push the ends of a section apart along the radius until it is MIN_WIDTH wide
+function widen({ inner, outer }: RibbonSection): [Vec3, Vec3] {
+  const dx = outer[0] - inner[0];
+  const dz = outer[2] - inner[2];
+  const width = Math.hypot(dx, dz);
+  if (width >= MIN_WIDTH) return [inner, outer];
+
+  const midX = (inner[0] + outer[0]) / 2;
+  const midZ = (inner[2] + outer[2]) / 2;
+  const length = Math.hypot(midX, midZ);
+  const [ux, uz] = length > 0 ? [midX / length, midZ / length] : [1, 0];
+  const half = MIN_WIDTH / 2;
+  return [
+    [midX - ux * half, inner[1], midZ - uz * half],
+    [midX + ux * half, outer[1], midZ + uz * half],
+  ];
+}
+
+/**
+ * Mesh through consecutive bar sections with per-vertex colors: a flat strip
+ * between the inner and outer edges when `thickness` is 0, otherwise a closed
+ * tube of that height. Each run is a separate strip so overlaid cycles don't
+ * join up.
+ */
+export function buildRibbonGeometry(runs: RibbonSection[][], thickness: number = 0): THREE.BufferGeometry {
+  const positions: number[] = [];
+  const colors: number[] = [];
+  const indices: number[] = [];
+
+  // Corners of each cross-section and the edges swept between bars
+  const half = thickness / 2;
+  const corners = half > 0 ? 4 : 2;
+  const edges: [number, number][] = half > 0 ? [[0, 1], [1, 2], [2, 3], [3, 0]] : [[0, 1]];
+
+  for (const run of runs) {
+    if (run.length < 2) continue;
+    const first = positions.length / 3;
+
+    for (const section of run) {
+      const [inner, outer] = widen(section);
+      const points: Vec3[] = half > 0
+        ? [
+            [inner[0], inner[1] - half, inner[2]],
+            [inner[0], inner[1] + half, inner[2]],
+            [outer[0], outer[1] + half, outer[2]],
+            [outer[0], outer[1] - half, outer[2]],
+          ]
+        : [inner, outer];
+      for (const point of points) {
+        positions.push(...point);
+        colors.push(section.color.r, section.color.g, section.color.b);
+      }
+    }
+
+    for (let i = 0; i < run.length - 1; i++) {
+      const current = first + i * corners;
+      const next = current + corners;
+      for (const [a, b] of edges) {
+        indices.push(current + a, next + a, next + b, current + a, next + b, current + b);
+      }
+    }
+  }
+
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+  geometry.setIndex(indices);
+  geometry.computeVertexNormals();
+  return geometry;
+}
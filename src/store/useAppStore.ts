@@ -1,24 +1,109 @@
 import { create } from 'zustand';
-import { Asset, PricePoint, SpiralConfig, CycleDuration, PriceScale, ColorMode } from '@/types';
+import {
+  Asset,
+  AssetSeries,
+  PricePoint,
+  SpiralConfig,
+  CycleDuration,
+  CycleAnchor,
+  CycleEventSet,
+  TimeBasis,
+  PriceScale,
+  ColorMode,
+  PriceInterval,
+  PriceBasis,
+  SeriesAlignment,
+  SeriesRadiusScale,
+  DisplayCurrency,
+  DataQualityConfig,
+  QualityReport,
+  Resolution,
+  LiveStatus,
+  ViewMode,
+  SpiralStyle,
+  IndicatorConfig,
+  LinearOrigin,
+} from '@/types';
+import { CpiObservation } from '@/lib/data/inflation';
+import { cleanLiveBar, DEFAULT_DATA_QUALITY } from '@/lib/data/quality';
+import { CYCLE_EVENT_PRESETS } from '@/lib/spiral/cycleEvents';
 
 interface AppState {
-  // Selected asset
+  // Selected (active) asset; replaces the active series when changed
   asset: Asset | null;
   setAsset: (asset: Asset | null) => void;
 
+  // All assets drawn in the scene, the active one included
+  seriesList: AssetSeries[];
+  addSeries: (asset: Asset) => void;
+  removeSeries: (symbol: string) => void;
+  setSeriesData: (symbol: string, data: PricePoint[], quality?: QualityReport) => void;
+  setSeriesVisible: (symbol: string, visible: boolean) => void;
+
+  // Live updates for the active series
+  live: boolean;
+  setLive: (enabled: boolean) => void;
+  liveStatus: LiveStatus;
+  setLiveStatus: (status: LiveStatus) => void;
+  // Append a bar, or update the last bar when the timestamp matches
+  appendLiveBar: (symbol: string, bar: PricePoint) => void;
+
+  // Asset the others are priced in (ratio mode), null for plain prices
+  ratioAsset: Asset | null;
+  setRatioAsset: (asset: Asset | null) => void;
+  ratioData: PricePoint[];
+  setRatioData: (data: PricePoint[]) => void;
+
+  // Display currency per USD, for converting series (empty when showing USD)
+  fxData: PricePoint[];
+  setFxData: (data: PricePoint[]) => void;
+
+  // CPI index for real prices; a user-supplied file replaces the bundled one
+  bundledCpi: CpiObservation[];
+  setBundledCpi: (data: CpiObservation[]) => void;
+  customCpi: { name: string; data: CpiObservation[] } | null;
+  setCustomCpi: (cpi: { name: string; data: CpiObservation[] } | null) => void;
+
+  // 3D helix or 2D polar chart; both draw the same config
+  viewMode: ViewMode;
+  setViewMode: (mode: ViewMode) => void;
+
   // Spiral configuration
   config: SpiralConfig;
   setConfig: (config: Partial<SpiralConfig>) => void;
   setCycleDuration: (duration: CycleDuration) => void;
   setCustomDays: (days: number) => void;
+  setCycleAnchor: (anchor: CycleAnchor) => void;
+  setCycleEvents: (events: CycleEventSet) => void;
+  setTimeBasis: (basis: TimeBasis) => void;
+  setFiscalYearStartMonth: (month: number) => void;
   setPriceScale: (scale: PriceScale) => void;
+  setLinearOrigin: (origin: LinearOrigin) => void;
   setColorMode: (mode: ColorMode) => void;
   setCycleOverlay: (enabled: boolean) => void;
   setDateRange: (startDate: Date, endDate: Date) => void;
+  setPriceInterval: (interval: PriceInterval) => void;
+  setResolution: (resolution: Resolution) => void;
+  setResolutionDays: (days: number) => void;
+  setPriceBasis: (basis: PriceBasis) => void;
+  setShowCorporateEvents: (enabled: boolean) => void;
+  setSpiralStyle: (style: SpiralStyle) => void;
+  setShowCandleBodies: (enabled: boolean) => void;
+  setVolumeWidth: (enabled: boolean) => void;
+  addIndicator: (indicator: IndicatorConfig) => void;
+  updateIndicator: (id: string, changes: Partial<IndicatorConfig>) => void;
+  removeIndicator: (id: string) => void;
+  setShowCrossovers: (enabled: boolean) => void;
+  setSeriesAlignment: (alignment: SeriesAlignment) => void;
+  setSeriesRadiusScale: (scale: SeriesRadiusScale) => void;
+  setDisplayCurrency: (currency: DisplayCurrency) => void;
+  setDataQuality: (quality: Partial<DataQualityConfig>) => void;
+  setRealPrices: (enabled: boolean) => void;
+  setInflationBaseDate: (date: Date | null) => void;
 
-  // Price data
+  // Price data of the active series
   priceData: PricePoint[];
-  setPriceData: (data: PricePoint[]) => void;
+  setPriceData: (data: PricePoint[], quality?: QualityReport) => void;
 
   // Loading state
   isLoading: boolean;
@@ -33,17 +118,164 @@ interface AppState {
 const defaultConfig: SpiralConfig = {
   cycleDuration: 'annual',
   customDays: 365,
+  cycleEvents: CYCLE_EVENT_PRESETS[0].set,
   priceScale: 'logarithmic',
+  linearOrigin: 'zero',
   colorMode: 'return',
   cycleOverlay: false,
+  cycleAnchor: 'firstBar',
+  timeBasis: 'calendar',
+  fiscalYearStartMonth: 0,
+  interval: '1d',
+  resolution: 'auto',
+  resolutionDays: 3,
+  priceBasis: 'splitAdjusted',
+  showCorporateEvents: false,
+  spiralStyle: 'line',
+  showCandleBodies: false,
+  volumeWidth: false,
+  indicators: [],
+  showCrossovers: true,
+  displayCurrency: 'USD',
+  dataQuality: DEFAULT_DATA_QUALITY,
+  realPrices: false,
+  inflationBaseDate: null,
+  seriesAlignment: 'calendar',
+  seriesRadiusScale: 'shared',
   startDate: new Date(Date.now() - 5 * 365 * 24 * 60 * 60 * 1000), // 5 years ago
   endDate: new Date(),
 };
 
+// Base hues handed out to series in order; the first is the app's accent
+export const SERIES_COLORS = ['#ff6600', '#3b82f6', '#22c55e', '#a855f7', '#eab308', '#ec4899', '#14b8a6'];
+
+function nextSeriesColor(seriesList: AssetSeries[]): string {
+  const used = new Set(seriesList.map((s) => s.color));
+  return SERIES_COLORS.find((color) => !used.has(color)) ?? SERIES_COLORS[seriesList.length % SERIES_COLORS.length];
+}
+
 export const useAppStore = create<AppState>((set) => ({
   // Asset
   asset: null,
-  setAsset: (asset) => set({ asset }),
+  setAsset: (asset) =>
+    set((state) => {
+      if (!asset) {
+        return { asset: null, priceData: [], seriesList: [] };
+      }
+
+      // Selecting a series that is already drawn just makes it active
+      const existing = state.seriesList.find((s) => s.asset.symbol === asset.symbol);
+      if (existing) {
+        return {
+          asset: existing.asset,
+          priceData: existing.priceData,
+          seriesList: state.seriesList.map((s) => (s === existing ? { ...s, visible: true } : s)),
+        };
+      }
+
+      const activeIndex = state.seriesList.findIndex((s) => s.asset.symbol === state.asset?.symbol);
+      const color = activeIndex >= 0 ? state.seriesList[activeIndex].color : nextSeriesColor(state.seriesList);
+      const series: AssetSeries = { asset, priceData: [], color, visible: true };
+      const seriesList = activeIndex >= 0
+        ? state.seriesList.map((s, i) => (i === activeIndex ? series : s))
+        : [...state.seriesList, series];
+
+      return { asset, priceData: [], seriesList };
+    }),
+
+  // Series
+  seriesList: [],
+  addSeries: (asset) =>
+    set((state) => {
+      if (state.seriesList.some((s) => s.asset.symbol === asset.symbol)) return state;
+
+      const series: AssetSeries = { asset, priceData: [], color: nextSeriesColor(state.seriesList), visible: true };
+      return {
+        seriesList: [...state.seriesList, series],
+        // The first series also becomes the active one
+        ...(!state.asset && { asset, priceData: [] }),
+      };
+    }),
+  removeSeries: (symbol) =>
+    set((state) => {
+      const seriesList = state.seriesList.filter((s) => s.asset.symbol !== symbol);
+      if (state.asset?.symbol !== symbol) return { seriesList };
+
+      // Removing the active series hands over to the next one
+      const next = seriesList[0];
+      return { seriesList, asset: next?.asset ?? null, priceData: next?.priceData ?? [] };
+    }),
+  setSeriesData: (symbol, data, quality) =>
+    set((state) => {
+      const target = state.seriesList.find((s) => s.asset.symbol === symbol);
+      if (!target || target.priceData === data) return state;
+
+      return {
+        seriesList: state.seriesList.map((s) => (s === target ? { ...s, priceData: data, quality } : s)),
+        ...(state.asset?.symbol === symbol && { priceData: data }),
+      };
+    }),
+  setSeriesVisible: (symbol, visible) =>
+    set((state) => ({
+      seriesList: state.seriesList.map((s) => (s.asset.symbol === symbol ? { ...s, visible } : s)),
+    })),
+
+  // Live
+  live: false,
+  setLive: (enabled) => set({ live: enabled }),
+  liveStatus: 'off',
+  setLiveStatus: (status) => set({ liveStatus: status }),
+  appendLiveBar: (symbol, bar) =>
+    set((state) => {
+      const target = state.seriesList.find((s) => s.asset.symbol === symbol);
+      if (!target) return state;
+
+      const data = target.priceData;
+      const last = data[data.length - 1];
+      // Updates older than the data we have are stale
+      if (last && bar.timestamp.getTime() < last.timestamp.getTime()) return state;
+
+      const isSameBar = !!last && bar.timestamp.getTime() === last.timestamp.getTime();
+
+      // Same quality stage as fetched bars, against the bar before this one
+      const cleaned = cleanLiveBar(bar, isSameBar ? data[data.length - 2] : last, state.config.dataQuality);
+      if (!cleaned) return state;
+
+      // Sources without an adjusted close (e.g. simulated) keep the series'
+      // adjustment ratio: unchanged within a bar, none yet on a new one
+      const adjClose = cleaned.adjClose ?? (last?.adjClose === undefined
+        ? undefined
+        : isSameBar ? cleaned.price * (last.adjClose / last.price) : cleaned.price);
+      const update = { ...cleaned, adjClose };
+
+      const priceData = isSameBar
+        ? [...data.slice(0, -1), { ...last, ...update }]
+        : [...data, update];
+      return {
+        seriesList: state.seriesList.map((s) => (s === target ? { ...s, priceData } : s)),
+        ...(state.asset?.symbol === symbol && { priceData }),
+      };
+    }),
+
+  // Ratio
+  ratioAsset: null,
+  setRatioAsset: (asset) => set({ ratioAsset: asset, ratioData: [] }),
+  ratioData: [],
+  setRatioData: (data) => set({ ratioData: data }),
+
+  // FX
+  fxData: [],
+  setFxData: (data) => set({ fxData: data }),
+
+  // CPI
+  bundledCpi: [],
+  setBundledCpi: (data) => set({ bundledCpi: data }),
+  customCpi: null,
+  setCustomCpi: (cpi) => set({ customCpi: cpi }),
+
+  // View
+  viewMode: '3d',
+  setViewMode: (mode) => set({ viewMode: mode }),
 
   // Config
   config: defaultConfig,
@@ -59,10 +291,30 @@ export const useAppStore = create<AppState>((set) => ({
     set((state) => ({
       config: { ...state.config, customDays: days },
     })),
+  setCycleAnchor: (anchor) =>
+    set((state) => ({
+      config: { ...state.config, cycleAnchor: anchor },
+    })),
+  setCycleEvents: (events) =>
+    set((state) => ({
+      config: { ...state.config, cycleEvents: events },
+    })),
+  setTimeBasis: (basis) =>
+    set((state) => ({
+      config: { ...state.config, timeBasis: basis },
+    })),
+  setFiscalYearStartMonth: (month) =>
+    set((state) => ({
+      config: { ...state.config, fiscalYearStartMonth: month },
+    })),
   setPriceScale: (scale) =>
     set((state) => ({
       config: { ...state.config, priceScale: scale },
     })),
+  setLinearOrigin: (origin) =>
+    set((state) => ({
+      config: { ...state.config, linearOrigin: origin },
+    })),
   setColorMode: (mode) =>
     set((state) => ({
       config: { ...state.config, colorMode: mode },
@@ -71,14 +323,101 @@ export const useAppStore = create<AppState>((set) => ({
     set((state) => ({
       config: { ...state.config, cycleOverlay: enabled },
     })),
+  // The range is kept as the user set it; requests clamp it per interval
   setDateRange: (startDate, endDate) =>
     set((state) => ({
       config: { ...state.config, startDate, endDate },
     })),
+  setPriceInterval: (interval) =>
+    set((state) => ({
+      config: { ...state.config, interval },
+    })),
+  setResolution: (resolution) =>
+    set((state) => ({
+      config: { ...state.config, resolution },
+    })),
+  setResolutionDays: (days) =>
+    set((state) => ({
+      config: { ...state.config, resolutionDays: days },
+    })),
+
+  setPriceBasis: (basis) =>
+    set((state) => ({
+      config: { ...state.config, priceBasis: basis },
+    })),
+  setShowCorporateEvents: (enabled) =>
+    set((state) => ({
+      config: { ...state.config, showCorporateEvents: enabled },
+    })),
+  setSpiralStyle: (style) =>
+    set((state) => ({
+      config: { ...state.config, spiralStyle: style },
+    })),
+  setShowCandleBodies: (enabled) =>
+    set((state) => ({
+      config: { ...state.config, showCandleBodies: enabled },
+    })),
+  setVolumeWidth: (enabled) =>
+    set((state) => ({
+      config: { ...state.config, volumeWidth: enabled },
+    })),
+  addIndicator: (indicator) =>
+    set((state) => ({
+      config: { ...state.config, indicators: [...state.config.indicators, indicator] },
+    })),
+  updateIndicator: (id, changes) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        indicators: state.config.indicators.map((indicator) =>
+          indicator.id === id ? { ...indicator, ...changes } : indicator
+        ),
+      },
+    })),
+  removeIndicator: (id) =>
+    set((state) => ({
+      config: { ...state.config, indicators: state.config.indicators.filter((indicator) => indicator.id !== id) },
+    })),
+  setShowCrossovers: (enabled) =>
+    set((state) => ({
+      config: { ...state.config, showCrossovers: enabled },
+    })),
+  setSeriesAlignment: (alignment) =>
+    set((state) => ({
+      config: { ...state.config, seriesAlignment: alignment },
+    })),
+  setSeriesRadiusScale: (scale) =>
+    set((state) => ({
+      config: { ...state.config, seriesRadiusScale: scale },
+    })),
+  setDisplayCurrency: (currency) =>
+    set((state) => ({
+      config: { ...state.config, displayCurrency: currency },
+      // Rates of the previous currency no longer apply
+      fxData: [],
+    })),
+  setDataQuality: (quality) =>
+    set((state) => ({
+      config: { ...state.config, dataQuality: { ...state.config.dataQuality, ...quality } },
+    })),
+  setRealPrices: (enabled) =>
+    set((state) => ({
+      config: { ...state.config, realPrices: enabled },
+    })),
+  setInflationBaseDate: (date) =>
+    set((state) => ({
+      config: { ...state.config, inflationBaseDate: date },
+    })),
 
   // Price data
   priceData: [],
-  setPriceData: (data) => set({ priceData: data }),
+  setPriceData: (data, quality) =>
+    set((state) => ({
+      priceData: data,
+      seriesList: state.seriesList.map((s) =>
+        s.asset.symbol === state.asset?.symbol ? { ...s, priceData: data, quality } : s
+      ),
+    })),
 
   // Loading
   isLoading: false,
@@ -7,30 +7,158 @@ export interface PricePoint {
   high?: number;
   low?: number;
   volume?: number;
+  adjClose?: number; // Provider's split + dividend adjusted close
+  dividend?: number; // Cash dividend going ex on this bar (as traded, per share)
+  split?: number; // Split ratio taking effect on this bar (e.g. 4 for a 4:1 split)
+  qualityFlag?: QualityIssueType; // Set by the data-quality stage when the bar is suspect
 }
 
 export interface SpiralConfig {
   cycleDuration: CycleDuration;
   customDays?: number;
+  cycleEvents: CycleEventSet; // Boundaries for the 'events' cycle duration
   priceScale: PriceScale;
+  linearOrigin: LinearOrigin; // Where the linear radius starts
   colorMode: ColorMode;
   cycleOverlay: boolean; // Stack cycles at same height for comparison
+  cycleAnchor: CycleAnchor;
+  timeBasis: TimeBasis;
+  fiscalYearStartMonth: number; // 0 = January; where calendar years and quarters begin
+  interval: PriceInterval; // Bar size fetched from the API
+  resolution: Resolution; // Bar size drawn, resampled from the fetched bars
+  resolutionDays: number; // Bucket length for the 'nDay' resolution
+  priceBasis: PriceBasis;
+  showCorporateEvents: boolean; // Mark dividends and splits on the spiral
+  spiralStyle: SpiralStyle;
+  showCandleBodies: boolean; // Open-close bodies on the ribbon style
+  volumeWidth: boolean; // Line width follows relative volume
+  indicators: IndicatorConfig[]; // Overlay spirals drawn with each series
+  showCrossovers: boolean; // Mark golden/death crosses between moving averages
+  displayCurrency: DisplayCurrency;
+  dataQuality: DataQualityConfig;
+  realPrices: boolean; // Deflate by a CPI index
+  inflationBaseDate: Date | null; // Price level real values are expressed in; null = latest CPI
+  seriesAlignment: SeriesAlignment; // How multiple series share the time axis
+  seriesRadiusScale: SeriesRadiusScale; // How multiple series share the price radius
   startDate: Date;
   endDate: Date;
 }
 
-export type CycleDuration = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annual' | 'custom';
+// events = one turn per interval between the dates of `cycleEvents`
+export type CycleDuration = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'annual' | 'custom' | 'events';
 
-export type PriceScale = 'linear' | 'logarithmic';
+// Boundary dates of variable-length cycles, e.g. Bitcoin halvings
+export interface CycleEventSet {
+  name: string;
+  dates: Date[]; // Sorted, at least two for a full cycle
+}
+
+// firstBar = fixed day counts from the first bar, calendar = true position
+// within the calendar day/week/month/quarter/year (custom cycles stay fixed)
+export type CycleAnchor = 'firstBar' | 'calendar';
+
+// What elapsed time is measured in: calendar days, or trading sessions so
+// weekends and holidays take no room (cycle lengths become sessions too)
+export type TimeBasis = 'calendar' | 'sessions';
+
+// cyclePercent = % change from the first bar of each cycle, cycleZScore = the
+// same move in units of that cycle's volatility; both put 0 at a fixed ring
+export type PriceScale = 'linear' | 'logarithmic' | 'cyclePercent' | 'cycleZScore';
+
+// zero = radius proportional to price, min = the series' low at the center
+export type LinearOrigin = 'zero' | 'min';
+
+// line = a line through the closes, ribbon = a mesh spanning each bar's low to high
+export type SpiralStyle = 'line' | 'ribbon';
+
+export type IndicatorType = 'sma' | 'ema' | 'bollinger';
+
+// A moving average or band overlaid on the spiral
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  period: number; // In bars
+  stdDevs: number; // Bollinger band width; unused by moving averages
+  color: string;
+  visible: boolean;
+}
+
+// raw = as traded, splitAdjusted = back-adjusted for splits,
+// totalReturn = split-adjusted with dividends reinvested
+export type PriceBasis = 'raw' | 'splitAdjusted' | 'totalReturn';
+
+// Currency prices are shown in; series are quoted in USD and converted
+export type DisplayCurrency = 'USD' | 'EUR' | 'GBP' | 'CHF';
+
+// Problems the data-quality stage detects in fetched bars
+export type QualityIssueType = 'duplicate' | 'invalid' | 'nonPositive' | 'unsorted' | 'jump' | 'missingSession';
+
+// What to do with a bad bar: remove it, replace it with the previous good
+// value, or keep it marked on the spiral
+export type QualityPolicy = 'drop' | 'forwardFill' | 'flag';
+
+export interface QualityIssue {
+  type: QualityIssueType;
+  timestamp: Date;
+  message: string;
+}
+
+// What the data-quality stage found in one series
+export interface QualityReport {
+  inputCount: number;
+  outputCount: number;
+  counts: Record<QualityIssueType, number>;
+  issues: QualityIssue[]; // The first few hundred; counts are complete
+}
+
+export interface DataQualityConfig {
+  badPricePolicy: QualityPolicy; // NaN and zero/negative prices
+  jumpPolicy: QualityPolicy; // Spikes that revert on the next bar
+  jumpThreshold: number; // Move (fraction, 0.3 = 30%) that counts as a spike
+}
+
+// What displayed prices are measured in; ratio = one asset priced in another
+export type PriceUnit = DisplayCurrency | 'ratio';
+
+// calendar = same date at same height, start = every series starts at the bottom
+export type SeriesAlignment = 'calendar' | 'start';
 
-export type ColorMode = 'price' | 'return' | 'drawdown' | 'volatility' | 'cyclePosition';
+export type SeriesRadiusScale = 'shared' | 'perSeries';
 
-export type AssetType = 'stock' | 'crypto' | 'forex' | 'commodity' | 'bond';
+// volume = traded volume level, volumeAnomaly = volume against its recent average
+export type ColorMode = 'price' | 'return' | 'drawdown' | 'volatility' | 'cyclePosition' | 'volume' | 'volumeAnomaly';
+
+// native = bars as fetched; auto picks from point count and cycle length
+export type Resolution = 'auto' | 'native' | 'weekly' | 'monthly' | 'nDay';
+
+// Bar interval requested from price providers
+export type PriceInterval = '1m' | '5m' | '15m' | '1h' | '1d' | '1wk' | '1mo';
+
+export type AssetType = 'stock' | 'crypto' | 'forex' | 'commodity' | 'bond' | 'custom';
+
+// How the spiral is drawn: orbitable 3D helix or flat top-down polar chart
+export type ViewMode = '3d' | '2d';
+
+// State of the live update stream for the active series
+export type LiveStatus = 'off' | 'connecting' | 'live' | 'reconnecting' | 'error';
+
+// Where an asset's price data comes from: fetched from /api/prices or imported from a file
+export type AssetSource = 'api' | 'import';
 
 export interface Asset {
   symbol: string;
   name: string;
   type: AssetType;
+  source?: AssetSource; // Defaults to 'api'
+}
+
+// One asset drawn as its own spiral in the scene
+export interface AssetSeries {
+  asset: Asset;
+  priceData: PricePoint[];
+  color: string; // Base hue for the spiral and legend
+  visible: boolean;
+  quality?: QualityReport; // From cleaning the fetched or imported bars
 }
 
 export interface SpiralPoint {
@@ -74,11 +202,55 @@ export interface HistoricalQuote {
   adjClose?: number;
 }
 
+export interface DividendEvent {
+  date: Date;
+  amount: number; // Cash per share, as traded
+}
+
+export interface SplitEvent {
+  date: Date;
+  numerator: number;
+  denominator: number;
+}
+
+export interface CorporateEvents {
+  dividends: DividendEvent[];
+  splits: SplitEvent[];
+}
+
+// Why a price request failed, sent as `code` in API error responses
+export type PriceErrorCode =
+  | 'BAD_REQUEST' // Missing or malformed parameter
+  | 'BAD_DATE' // Start or end date doesn't parse
+  | 'INVALID_RANGE' // Start date after end date
+  | 'UNKNOWN_SYMBOL'
+  | 'EMPTY_RANGE' // Symbol exists but has no bars in the range
+  | 'UPSTREAM_TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_ERROR';
+
+// Context sent alongside an error code
+export interface PriceErrorDetails {
+  symbol?: string;
+  availableFrom?: string; // ISO date of the first bar the provider has (EMPTY_RANGE)
+  availableTo?: string; // ISO date of the last bar
+  retryAfterSeconds?: number; // RATE_LIMITED
+}
+
 // Cycle duration in days
-export const CYCLE_DAYS: Record<Exclude<CycleDuration, 'custom'>, number> = {
+export const CYCLE_DAYS: Record<Exclude<CycleDuration, 'custom' | 'events'>, number> = {
   daily: 1,
   weekly: 7,
   monthly: 30,
   quarterly: 91,
   annual: 365,
 };
+
+// Cycle length in trading sessions, for the sessions time basis
+export const CYCLE_SESSIONS: Record<Exclude<CycleDuration, 'custom' | 'events'>, number> = {
+  daily: 1,
+  weekly: 5,
+  monthly: 21,
+  quarterly: 63,
+  annual: 252,
+};